@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { ITunesSearchProvider } from '../src/services/iTunesSearch';
+import { MetadataEnricher } from '../src/services/metadataEnrichment';
+import { TrackMatch, TrackQuery, scoreMatch } from '../src/services/metadataProviders';
+import { MusicBrainzProvider } from '../src/services/musicBrainz';
+import { logger } from '../src/utils/logger';
+
+interface LookupFixtures {
+  /** Canned API responses by "Artist - Title" (MusicBrainz) or search term (iTunes) */
+  responses: {
+    musicbrainz: Record<string, unknown>;
+    itunes: Record<string, unknown>;
+  };
+  scores: Array<{ note: string; query: TrackQuery; candidate: TrackMatch; min?: number; max?: number }>;
+  lookups: Array<{
+    note: string;
+    query: TrackQuery;
+    expected: {
+      provider: string;
+      album: string;
+      year: string;
+      genre: string;
+      trackNumber: string;
+      artworkKey: string;
+    } | null;
+  }>;
+}
+
+// Provider responses for real tracks, served by a local stand-in for the APIs
+const fixturesPath = path.join(__dirname, 'fixtures', 'metadata-lookups.json');
+
+/**
+ * Answers MusicBrainz recording searches and iTunes searches from the
+ * fixtures; iTunes fails for terms it has no response for
+ */
+function startFakeServer(fixtures: LookupFixtures, requests: string[]): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    requests.push(url.pathname);
+    res.setHeader('Content-Type', 'application/json');
+
+    if (url.pathname === '/ws/2/recording') {
+      const query = /^recording:"(.*)" AND artist:"(.*)"$/.exec(url.searchParams.get('query') || '');
+      const key = query ? `${query[2]} - ${query[1]}` : '';
+      res.end(JSON.stringify(fixtures.responses.musicbrainz[key] || { recordings: [] }));
+    } else if (url.pathname === '/search' && fixtures.responses.itunes[url.searchParams.get('term') || '']) {
+      res.end(JSON.stringify(fixtures.responses.itunes[url.searchParams.get('term') || '']));
+    } else {
+      res.statusCode = 503;
+      res.end(JSON.stringify({ error: 'Unavailable' }));
+    }
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => resolve(server));
+  });
+}
+
+function testScores(fixtures: LookupFixtures): number {
+  let failures = 0;
+
+  for (const { note, query, candidate, min, max } of fixtures.scores) {
+    const score = scoreMatch(query, candidate);
+    if ((min !== undefined && score < min) || (max !== undefined && score > max)) {
+      failures++;
+      console.error(`FAIL score of ${note}: ${score.toFixed(3)}, expected ${min !== undefined ? `>= ${min}` : `<= ${max}`}`);
+    }
+  }
+
+  console.log(`${fixtures.scores.length - failures} of ${fixtures.scores.length} scores as expected`);
+  return failures;
+}
+
+async function testLookups(fixtures: LookupFixtures, enricher: MetadataEnricher): Promise<number> {
+  let failures = 0;
+
+  for (const { note, query, expected } of fixtures.lookups) {
+    const match = await enricher.lookup(query);
+    const actual = match && {
+      provider: match.provider,
+      album: match.album,
+      year: match.year,
+      genre: match.genre,
+      trackNumber: match.trackNumber,
+      artworkKey: match.artwork?.key
+    };
+
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      failures++;
+      console.error(`FAIL lookup, ${note}:`);
+      console.error(`  expected ${JSON.stringify(expected)}`);
+      console.error(`  got      ${JSON.stringify(actual)}`);
+    }
+  }
+
+  console.log(`${fixtures.lookups.length - failures} of ${fixtures.lookups.length} lookups as expected`);
+  return failures;
+}
+
+async function testMetadataLookup(): Promise<boolean> {
+  const fixtures: LookupFixtures = JSON.parse(fs.readFileSync(fixturesPath, 'utf8'));
+  const requests: string[] = [];
+  const server = await startFakeServer(fixtures, requests);
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'metadata-lookup-'));
+
+  // Provider failures are expected here
+  logger.level = 'error';
+
+  try {
+    const enricher = new MetadataEnricher({
+      providers: [
+        new MusicBrainzProvider({
+          apiUrl: `${baseUrl}/ws/2`,
+          coverArtUrl: `${baseUrl}/caa`,
+          userAgent: 'mp4downloader-test',
+          timeoutMs: 5000,
+          minIntervalMs: 0
+        }),
+        new ITunesSearchProvider({ apiUrl: baseUrl, country: 'US', timeoutMs: 5000 })
+      ],
+      minConfidence: 0.8,
+      cacheTtlMs: 60 * 1000
+    }, cacheDir);
+
+    let failures = testScores(fixtures);
+    failures += await testLookups(fixtures, enricher);
+
+    // Everything was searched once; a repeat is answered from the cache
+    const requestCount = requests.length;
+    for (const { query } of fixtures.lookups) {
+      await enricher.lookup(query);
+    }
+    const failedSearches = fixtures.lookups.filter(lookup => lookup.expected === null).length;
+    if (requests.length - requestCount !== failedSearches) {
+      failures++;
+      console.error(`FAIL cache: repeated lookups made ${requests.length - requestCount} request(s), expected ${failedSearches} (failed searches only)`);
+    }
+
+    return failures === 0;
+  } finally {
+    server.close();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  }
+}
+
+// Run the test
+testMetadataLookup()
+  .then(success => {
+    console.log(`Test ${success ? 'succeeded' : 'failed'}`);
+    process.exit(success ? 0 : 1);
+  })
+  .catch(error => {
+    console.error('Unhandled error in test:', error);
+    process.exit(1);
+  });
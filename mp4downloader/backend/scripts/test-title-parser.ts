@@ -0,0 +1,48 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import MetadataService, { type ParsedTitle } from '../src/services/metadataService';
+
+interface TitleFixture {
+  videoTitle: string;
+  uploader?: string;
+  expected: ParsedTitle;
+}
+
+// Real video titles with the artist and title they should be tagged with
+const fixturesPath = path.join(__dirname, 'fixtures', 'video-titles.json');
+
+function testTitleParsing(): boolean {
+  const fixtures: TitleFixture[] = JSON.parse(fs.readFileSync(fixturesPath, 'utf8'));
+  let failures = 0;
+
+  console.log(`Parsing ${fixtures.length} video titles...`);
+
+  for (const fixture of fixtures) {
+    const actual = MetadataService.extractFromTitle(fixture.videoTitle, fixture.uploader);
+    const expected = { version: undefined, ...fixture.expected };
+
+    const mismatches = (Object.keys(expected) as Array<keyof ParsedTitle>)
+      .filter(key => JSON.stringify(actual[key]) !== JSON.stringify(expected[key]));
+
+    if (mismatches.length > 0) {
+      failures++;
+      console.error(`FAIL ${fixture.videoTitle} (${fixture.uploader ?? 'no uploader'})`);
+      mismatches.forEach(key => {
+        console.error(`  ${key}: expected ${JSON.stringify(expected[key])}, got ${JSON.stringify(actual[key])}`);
+      });
+    }
+  }
+
+  console.log(`${fixtures.length - failures} of ${fixtures.length} titles parsed as expected`);
+  return failures === 0;
+}
+
+// Run the test
+try {
+  const success = testTitleParsing();
+  console.log(`Test ${success ? 'succeeded' : 'failed'}`);
+  process.exit(success ? 0 : 1);
+} catch (error) {
+  console.error('Unhandled error in test:', error);
+  process.exit(1);
+}
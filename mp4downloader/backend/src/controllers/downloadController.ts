@@ -1,61 +1,145 @@
 import { Request, Response } from 'express';
-import { spawn, ChildProcess, exec as execCallback } from 'child_process';
+import { ChildProcess } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs-extra';
-import * as os from 'os';
 import { v4 as uuidv4 } from 'uuid';
-import { promisify } from 'util';
+import archiver from 'archiver';
 import { logger } from '../utils/logger';
-import { MetadataService } from '../services/metadataService';
+import { ChapterMarker, MetadataService, type ParsedTitle } from '../services/metadataService';
+import { JobRepository, JsonJournalJobStore } from '../services/jobStore';
+import { PlaylistRepository, JsonJournalPlaylistStore } from '../services/playlistStore';
+import { DownloadQueue } from '../services/downloadQueue';
+import { EventBus } from '../services/eventBus';
+import { RetryPolicy } from '../services/retryPolicy';
+import { YtDlpProcessError, classifyYtDlpError } from '../services/ytDlpErrors';
+import { YtDlpClient, VideoChapter, VideoInfo } from '../services/ytDlpClient';
+import { VideoInfoCache } from '../services/videoInfoCache';
+import { CoverArtStore } from '../services/coverArt';
+import { MetadataEnricher } from '../services/metadataEnrichment';
+import {
+  AudioFormat,
+  AUDIO_FORMAT_SPECS,
+  DEFAULT_AUDIO_FORMAT,
+  PASSTHROUGH_EXTENSIONS,
+  getFormatSpecForFile,
+  getMimeTypeForFile
+} from '../services/audioFormats';
+import {
+  AudioQuality,
+  DEFAULT_AUDIO_QUALITY,
+  formatAudioQuality,
+  toFfmpegQualityArgs,
+  toYtDlpQuality
+} from '../services/audioQuality';
+import {
+  LoudnessMeasurement,
+  LoudnessMode,
+  LoudnessSettings,
+  ReplayGain,
+  getDefaultTargetLufs,
+  measureLoudness,
+  normalizeLoudness,
+  toAlbumGain,
+  toReplayGain
+} from '../services/loudness';
+import {
+  SponsorBlockCategory,
+  getRemovedDuration,
+  readRemovedSegments,
+  toSponsorBlockArgs
+} from '../services/sponsorBlock';
+import {
+  DEFAULT_VIDEO_SETTINGS,
+  DownloadMode,
+  VIDEO_CONTAINER_SPECS,
+  VideoContainer,
+  VideoResolution,
+  toYtDlpVideoArgs
+} from '../services/videoFormats';
+import { killProcessTree } from '../utils/processTree';
+import { encodeCursor, decodeCursor, ListCursor } from '../utils/cursor';
+import { getCanonicalVideoKey } from '../utils/videoUrl';
+import { sendFileWithRanges, toContentDisposition } from '../utils/fileResponse';
+import {
+  getRangeDuration,
+  getRangeLabel,
+  getRequestedRange,
+  isTrimmed,
+  toDownloadSection
+} from '../utils/timeRange';
+import { MAX_STATUS_PAGE_SIZE } from '../middleware/validators';
+import {
+  DownloadInfo,
+  DownloadRequestEntry,
+  DownloadStatus,
+  DownloadStatusView,
+  CompactDownloadStatusView,
+  DownloadEvent,
+  PlaylistRecord,
+  PlaylistStatus,
+  PlaylistView,
+  ACTIVE_STATUSES
+} from '../types/download';
 
-interface PlaylistInfo {
-  id: string;
-  title: string;
-  url: string;
-  video_count: number;
-}
+// Finished jobs have nothing left to stop
+const CANCELLABLE_STATUSES: DownloadStatus[] = [...ACTIVE_STATUSES, 'interrupted'];
 
-const execPromise = promisify(execCallback);
-
-interface DownloadInfo {
-  id: string;
-  url: string;
-  status: 'queued' | 'downloading' | 'processing' | 'completed' | 'error';
-  progress: number;
-  title?: string;
-  outputPath?: string;
-  error?: string;
-  lastUpdated: Date;
-  size?: number;
-  playlistId?: string;
-  metadata?: {
-    title: string;
-    artist: string;
-    album: string;
-    year: string;
-    genre: string;
-    comment: string;
-    duration: number;
-  };
-}
+// Jobs that can be started again under the same id
+const RETRYABLE_STATUSES: DownloadStatus[] = ['error', 'interrupted', 'cancelled', 'retrying'];
 
-interface VideoInfo {
-  title: string;
-  uploader?: string;
-  webpage_url?: string;
-  duration?: number;
-  upload_date?: string;
-  categories?: string[];
-}
+const CLEARED_ERROR_FIELDS: Partial<DownloadInfo> = {
+  error: undefined,
+  errorCode: undefined,
+  errorMessage: undefined,
+  retryable: undefined
+};
+
+// How much of yt-dlp's stderr is kept for error reporting
+const MAX_STDERR_LENGTH = 16 * 1024;
+
+// yt-dlp reports progress many times a second. It is published at most
+// this often per job, and saved less often still: the journal only needs
+// to know roughly how far an interrupted job got.
+const PROGRESS_EVENT_INTERVAL_MS = 250;
+const PROGRESS_SAVE_INTERVAL_MS = 5000;
+
+const DEFAULT_STATUS_PAGE_SIZE = 100;
+
+// Keeps idle event stream connections from being closed by proxies
+const EVENT_STREAM_HEARTBEAT_MS = 15000;
+
+/** Settings of a request that every job it creates shares */
+type JobSettings = Pick<DownloadInfo, 'loudness' | 'sponsorBlock' | 'video'> & {
+  quality: AudioQuality;
+  format: AudioFormat;
+};
 
 export class DownloadController {
   private downloads: Map<string, DownloadInfo>;
   private downloadProcesses: Map<string, ChildProcess>;
   private downloadsDir: string;
   private metadataService: MetadataService;
+  private jobStore: JobRepository;
+  private playlists: Map<string, PlaylistRecord>;
+  private playlistStore: PlaylistRepository;
+  private downloadQueue: DownloadQueue;
+  private events: EventBus<DownloadEvent>;
+  private retryPolicy: RetryPolicy;
+  private retryTimers: Map<string, NodeJS.Timeout>;
+  /** When the progress of each downloading job was last published and saved */
+  private progressTimes: Map<string, { publishedAt: number; savedAt: number }>;
+  private ytDlp: YtDlpClient;
+  private videoInfoCache: VideoInfoCache<VideoInfo>;
+  private coverArt: CoverArtStore;
+  private metadataEnricher: MetadataEnricher;
 
   // Use arrow functions for methods that will be passed as callbacks
-  private onCloseCallback = (downloadId: string, resolve: () => void, reject: (error: Error) => void) => 
+  private onCloseCallback = (
+    downloadId: string,
+    resolve: () => void,
+    reject: (error: Error) => void,
+    getStderr: () => string
+  ) => 
     async (code: number | null) => {
       this.downloadProcesses.delete(downloadId);
       const download = this.downloads.get(downloadId);
@@ -64,18 +148,23 @@ export class DownloadController {
         return reject(new Error('Download not found during close handler'));
       }
 
+      // The process of a cancelled job was killed on purpose
+      if (download.status === 'cancelled') {
+        return resolve();
+      }
+
       if (code !== 0) {
-        const error = new Error(`yt-dlp process exited with code ${code}`);
+        const error = new YtDlpProcessError(code, getStderr());
         logger.error(error.message);
         
-        download.status = 'error';
-        download.error = error.message;
-        download.lastUpdated = new Date();
-        
         return reject(error);
       }
 
       try {
+        // yt-dlp is done; what follows converts and tags the file
+        this.updateDownload(download, { status: 'processing', progress: 90 });
+        await this.moveToOutputPath(download);
+
         // Verify the file was created
         if (!download.outputPath || !fs.existsSync(download.outputPath)) {
           throw new Error('Output file was not created');
@@ -88,6 +177,13 @@ export class DownloadController {
           throw new Error('Downloaded file is empty');
         }
 
+        if (download.sponsorBlock) {
+          const removedSegments = await readRemovedSegments(this.getSponsorBlockReportPath(download.outputPath));
+          this.updateDownload(download, { removedSegments });
+        }
+
+        await this.applyLoudness(download);
+
         // Get video info for metadata
         const info = await this.getVideoInfo(download.url).catch(() => ({
           title: download.title || 'Unknown Title',
@@ -98,39 +194,105 @@ export class DownloadController {
           duration: 0
         }));
 
-        // Set metadata
-        download.metadata = {
-          title: info.title || 'Unknown Title',
-          artist: info.uploader || 'Unknown Artist',
-          album: info.title || 'Unknown Album',
-          year: info.upload_date ? info.upload_date.substring(0, 4) : new Date().getFullYear().toString(),
-          genre: info.categories ? info.categories[0] || 'Unknown' : 'Unknown',
+        // Set metadata; a chapter is a track of an album named after the video
+        const track = this.getTrackNames(download, info);
+
+        // Single videos and playlist entries are looked up for what the
+        // video does not say; chapters stay tracks of the video's album, and
+        // a title alone matches too many releases
+        const match = download.video || download.chapter || track.artist === 'Unknown Artist'
+          ? null
+          : await this.metadataEnricher.lookup({
+            artist: track.artist,
+            title: track.title,
+            duration: info.duration
+          });
+        if (match) {
+          this.updateDownload(download, {
+            metadataMatch: { provider: match.provider, confidence: Math.round(match.confidence * 100) / 100 }
+          });
+        }
+
+        const metadata = {
+          title: track.featuredArtists.length > 0
+            ? `${track.title} (feat. ${track.featuredArtists.join(' & ')})`
+            : track.title,
+          artist: track.artist,
+          featuredArtists: track.featuredArtists,
+          // A playlist is the album of its entries
+          album: (!download.playlistId && match?.album) || track.album,
+          trackNumber: download.chapter
+            ? `${download.chapter.index}/${download.chapter.total}`
+            : !download.playlistId ? match?.trackNumber : undefined,
+          year: match?.year
+            || (info.upload_date ? info.upload_date.substring(0, 4) : new Date().getFullYear().toString()),
+          genre: match?.genre || (info.categories ? info.categories[0] || 'Unknown' : 'Unknown'),
           comment: info.webpage_url || '',
-          duration: info.duration || 0
+          // A trimmed file only lasts as long as the selected range, minus
+          // the segments SponsorBlock cut out of it
+          duration: Math.max(0, (download.range
+            ? getRangeDuration(download.range, info.duration || 0)
+            : info.duration || 0) - getRemovedDuration(
+            download.removedSegments || [],
+            download.range?.start,
+            download.range?.end
+          ))
         };
+        this.updateDownload(download, { metadata });
+
+        // The release artwork, or else a square cover made from the
+        // letterboxed thumbnail yt-dlp embedded; videos keep their thumbnail
+        const thumbnail = !download.video && 'thumbnail' in info ? info.thumbnail : undefined;
+        const coverPath = (match?.artwork && await this.coverArt.get(match.artwork.key, match.artwork.url))
+          || (thumbnail ? await this.coverArt.get(getCanonicalVideoKey(download.url), thumbnail) : null);
+        if (coverPath) {
+          this.updateDownload(download, { coverPath });
+        }
 
         // Write metadata using MetadataService (static method)
         try {
-          await MetadataService.writeTags(download.outputPath, {
-            title: download.metadata.title,
-            artist: download.metadata.artist,
-            album: download.metadata.album,
-            year: download.metadata.year,
-            genre: download.metadata.genre,
-            comment: download.metadata.comment,
-            duration: download.metadata.duration
+          const written = await MetadataService.writeTags(download.outputPath, {
+            ...(coverPath && { imageBuffer: await fs.promises.readFile(coverPath), mimeType: 'image/jpeg' }),
+            title: metadata.title,
+            artist: metadata.artist,
+            album: metadata.album,
+            trackNumber: metadata.trackNumber,
+            year: metadata.year,
+            genre: metadata.genre,
+            comment: metadata.comment,
+            duration: metadata.duration,
+            chapters: this.getChapterMarkers(download, 'chapters' in info ? info.chapters : undefined)
           });
+          if (coverPath) {
+            this.updateDownload(download, {
+              coverEmbedded: written && MetadataService.canEmbedCover(download.outputPath)
+            });
+          }
           logger.info(`Successfully wrote metadata to ${download.outputPath}`);
         } catch (metadataError) {
           logger.error(`Failed to write metadata: ${metadataError instanceof Error ? metadataError.message : 'Unknown error'}`);
           // Don't fail the download if metadata writing fails
         }
 
+        // After writeTags, which would drop ReplayGain frames it does not know
+        if (download.loudness?.mode === 'replaygain' && download.loudnessMeasurement) {
+          const replayGain = toReplayGain(download.loudnessMeasurement);
+          if (await MetadataService.writeReplayGain(download.outputPath, replayGain)) {
+            this.updateDownload(download, { replayGain });
+          }
+        }
+
+        // Record what the file actually contains, e.g. the source codec in
+        // passthrough mode
+        const audio = await MetadataService.probeAudio(download.outputPath);
+
         // Update download info
-        download.status = 'completed';
-        download.progress = 100;
-        download.size = stats.size;
-        download.lastUpdated = new Date();
+        this.updateDownload(download, {
+          status: 'completed',
+          progress: 100,
+          size: stats.size,
+          ...(audio ? { audio } : {})
+        });
 
         resolve();
       } catch (error) {
@@ -141,34 +303,310 @@ export class DownloadController {
         }
         
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        download.status = 'error';
-        download.error = errorMessage;
-        download.lastUpdated = new Date();
-        
         reject(new Error(errorMessage));
       }
     };
 
   constructor() {
-    this.downloads = new Map();
     this.downloadProcesses = new Map();
+    this.retryTimers = new Map();
+    this.progressTimes = new Map();
+    this.retryPolicy = RetryPolicy.fromEnv();
+    this.ytDlp = YtDlpClient.fromEnv();
+    this.videoInfoCache = VideoInfoCache.fromEnv<VideoInfo>();
     this.downloadsDir = path.join(__dirname, '../../downloads');
+    this.coverArt = CoverArtStore.fromEnv(path.join(this.downloadsDir, 'covers'));
+    this.metadataEnricher = MetadataEnricher.fromEnv(this.downloadsDir);
     this.metadataService = new MetadataService();
     
     // Ensure downloads directory exists
     fs.ensureDirSync(this.downloadsDir);
     
+    this.events = new EventBus<DownloadEvent>();
+    this.downloadQueue = new DownloadQueue({
+      concurrency: Number(process.env.MAX_CONCURRENT_DOWNLOADS) || 3,
+      perHostConcurrency: Number(process.env.MAX_CONCURRENT_DOWNLOADS_PER_HOST) || 2,
+      onChange: () => this.events.publish('queue', {
+        type: 'queue',
+        positions: this.downloadQueue.getPositions()
+      })
+    });
+    
+    // Restore job history from the journal kept next to the downloaded files
+    this.jobStore = new JsonJournalJobStore(this.downloadsDir);
+    this.downloads = this.jobStore.loadAll();
+    this.markInterruptedDownloads();
+    this.playlistStore = new JsonJournalPlaylistStore(this.downloadsDir);
+    this.playlists = this.playlistStore.loadAll();
+    
     // Bind methods that will be passed as callbacks
     this.processDownload = this.processDownload.bind(this);
     this.processPlaylist = this.processPlaylist.bind(this);
     this.downloadFile = this.downloadFile.bind(this);
+    this.streamFile = this.streamFile.bind(this);
+    this.getTrackTags = this.getTrackTags.bind(this);
+    this.getCoverArt = this.getCoverArt.bind(this);
     this.getDownloadStatus = this.getDownloadStatus.bind(this);
     this.startDownload = this.startDownload.bind(this);
+    this.cancelDownload = this.cancelDownload.bind(this);
+    this.cancelPlaylist = this.cancelPlaylist.bind(this);
+    this.streamEvents = this.streamEvents.bind(this);
+    this.retryDownload = this.retryDownload.bind(this);
+    this.downloadPlaylistArchive = this.downloadPlaylistArchive.bind(this);
+    this.getPlaylists = this.getPlaylists.bind(this);
+    this.getPlaylist = this.getPlaylist.bind(this);
+  }
+
+  /**
+   * Applies changes to a download and records the new state in the job store
+   */
+  private updateDownload = (download: DownloadInfo, changes: Partial<DownloadInfo>): void => {
+    const now = new Date();
+
+    // A cancelled job only leaves that state by being queued again; late
+    // updates from its (killed) process must not revive it
+    if (download.status === 'cancelled' && changes.status && changes.status !== 'queued') {
+      changes = { ...changes };
+      delete changes.status;
+    }
+
+    if (changes.status && changes.status !== download.status) {
+      download.statusHistory = [
+        ...(download.statusHistory || []),
+        { status: changes.status, at: now }
+      ];
+      this.progressTimes.delete(download.id);
+    }
+
+    Object.assign(download, changes, { lastUpdated: now });
+    this.jobStore.save(download);
+    this.publishDownload(download);
+  };
+
+  /**
+   * Records download progress; the job is published and saved like in
+   * updateDownload, but only every so often
+   */
+  private reportProgress = (download: DownloadInfo, progress: number): void => {
+    const now = Date.now();
+    const times = this.progressTimes.get(download.id) || { publishedAt: 0, savedAt: 0 };
+    download.progress = progress;
+    download.lastUpdated = new Date(now);
+
+    if (now - times.savedAt >= PROGRESS_SAVE_INTERVAL_MS) {
+      this.jobStore.save(download);
+      times.savedAt = now;
+    }
+    if (now - times.publishedAt >= PROGRESS_EVENT_INTERVAL_MS) {
+      this.publishDownload(download, true);
+      times.publishedAt = now;
+    }
+    this.progressTimes.set(download.id, times);
+  };
+
+  /**
+   * @param progressOnly Only the progress changed; such events do not pile
+   * up in the replay history, only the latest one per job is kept
+   */
+  private publishDownload = (download: DownloadInfo, progressOnly = false): void => {
+    this.events.publish(
+      'download',
+      { type: 'download', download: this.toStatusView(download) },
+      progressOnly ? `progress:${download.id}` : undefined
+    );
+
+    const playlist = download.playlistId ? this.playlists.get(download.playlistId) : undefined;
+    if (playlist) {
+      this.publishPlaylist(playlist, progressOnly);
+    }
+  };
+
+  private publishPlaylist = (playlist: PlaylistRecord, progressOnly = false): void => {
+    this.events.publish(
+      'playlist',
+      { type: 'playlist', playlist: this.toPlaylistView(playlist) },
+      progressOnly ? `progress:playlist:${playlist.id}` : undefined
+    );
+  };
+
+  /**
+   * Rolls the state of the entries up into the playlist
+   */
+  private toPlaylistView = (playlist: PlaylistRecord): PlaylistView => {
+    const entries = playlist.entryIds
+      .map(id => this.downloads.get(id))
+      .filter((download): download is DownloadInfo => !!download);
+    const completedItems = entries.filter(download => download.status === 'completed').length;
+    const isActive = entries.some(download => ACTIVE_STATUSES.includes(download.status));
+
+    let status: PlaylistStatus;
+    let error: string | undefined;
+    if (isActive) {
+      status = entries.every(download => download.status === 'queued') ? 'pending' : 'processing';
+    } else if (completedItems === entries.length) {
+      status = 'completed';
+    } else {
+      status = 'error';
+      error = `${entries.length - completedItems} of ${entries.length} track(s) did not complete`;
+    }
+
+    const totalProgress = entries.reduce((sum, download) => sum + download.progress, 0);
+
+    return {
+      id: playlist.id,
+      url: playlist.url,
+      title: playlist.title,
+      kind: playlist.kind || 'playlist',
+      videoCount: playlist.entryIds.length,
+      status,
+      progress: entries.length > 0 ? Math.round(totalProgress / entries.length) : 0,
+      completedItems,
+      totalItems: entries.length,
+      error,
+      createdAt: playlist.createdAt,
+      items: entries.map(download => ({
+        id: download.id,
+        url: download.url,
+        title: download.title || 'Unknown Title',
+        status: download.status,
+        progress: download.progress,
+        error: download.errorMessage || download.error
+      }))
+    };
+  };
+
+  private toCompactStatusView = (download: DownloadInfo): CompactDownloadStatusView => ({
+    id: download.id,
+    status: download.status,
+    progress: download.progress,
+    queuePosition: this.downloadQueue.getPosition(download.id),
+    error: download.error,
+    errorCode: download.errorCode
+  });
+
+  private toStatusView = (download: DownloadInfo): DownloadStatusView => ({
+    id: download.id,
+    url: download.url,
+    status: download.status,
+    progress: download.progress,
+    queuePosition: this.downloadQueue.getPosition(download.id),
+    attempts: download.attempts || 0,
+    maxAttempts: this.retryPolicy.maxAttempts,
+    nextRetryAt: download.nextRetryAt,
+    title: download.title,
+    format: download.format || DEFAULT_AUDIO_FORMAT,
+    quality: formatAudioQuality(download.quality ?? DEFAULT_AUDIO_QUALITY),
+    range: download.range,
+    loudness: download.loudness,
+    measuredLoudness: download.loudnessMeasurement?.integrated,
+    replayGain: download.replayGain,
+    sponsorBlock: download.sponsorBlock,
+    removedSegments: download.removedSegments,
+    mode: download.video ? 'video' : 'audio',
+    video: download.video,
+    hasCover: !!download.coverPath,
+    coverEmbedded: !!download.coverEmbedded,
+    metadataMatch: download.metadataMatch,
+    audio: download.audio,
+    filePath: download.status === 'completed' && download.outputPath 
+      ? path.relative(process.cwd(), download.outputPath) 
+      : undefined,
+    lastUpdated: download.lastUpdated,
+    size: download.size,
+    error: download.error,
+    errorCode: download.errorCode,
+    errorMessage: download.errorMessage,
+    retryable: download.retryable
+  });
+
+  /**
+   * Status check that TypeScript does not narrow away; cancellation happens
+   * concurrently while a job awaits yt-dlp
+   */
+  private isCancelled = (download: DownloadInfo): boolean => download.status === 'cancelled';
+
+  /**
+   * Registers a new download and persists it
+   */
+  private addDownload = (download: DownloadInfo): void => {
+    const now = new Date();
+    download.createdAt = download.createdAt || now;
+    download.statusHistory = download.statusHistory || [{ status: download.status, at: now }];
+
+    this.downloads.set(download.id, download);
+    this.jobStore.save(download);
+    this.publishDownload(download);
+  };
+
+  /**
+   * Jobs that were in flight when the server stopped have no process behind
+   * them anymore; flag them so they can be resumed or retried.
+   */
+  private markInterruptedDownloads(): void {
+    for (const download of this.downloads.values()) {
+      if (ACTIVE_STATUSES.includes(download.status)) {
+        logger.warn(`Download ${download.id} was ${download.status} during shutdown, marking as interrupted`);
+        this.updateDownload(download, {
+          status: 'interrupted',
+          error: 'Download was interrupted by a server restart'
+        });
+      }
+    }
   }
 
+  /**
+   * Hands a download to the worker queue; it stays 'queued' until a slot is free
+   */
+  private enqueueDownload = (downloadId: string, url: string, quality: AudioQuality): void => {
+    this.downloadQueue.enqueue(downloadId, url, () =>
+      this.processDownload(downloadId, url, quality)
+        .catch(error => {
+          const failedDownload = this.downloads.get(downloadId);
+          if (failedDownload) {
+            this.handleDownloadFailure(failedDownload, error);
+          } else {
+            logger.error(`Download ${downloadId} failed:`, { error: error instanceof Error ? error.message : String(error) });
+          }
+        })
+    );
+  };
+
   public async startDownload(req: Request, res: Response): Promise<void> {
     try {
-      const { urls, quality = 192 } = req.body as { urls?: string[]; quality?: number };
+      // The validator has already parsed quality into an AudioQuality
+      const {
+        urls,
+        quality = DEFAULT_AUDIO_QUALITY,
+        format = DEFAULT_AUDIO_FORMAT,
+        splitChapters = false,
+        loudness: loudnessMode = 'off',
+        targetLufs,
+        sponsorBlock: sponsorBlockCategories = [],
+        mode = 'audio',
+        resolution = DEFAULT_VIDEO_SETTINGS.resolution,
+        container = DEFAULT_VIDEO_SETTINGS.container
+      } = req.body as {
+        urls?: DownloadRequestEntry[];
+        quality?: AudioQuality;
+        format?: AudioFormat;
+        splitChapters?: boolean;
+        loudness?: LoudnessMode;
+        targetLufs?: number;
+        sponsorBlock?: SponsorBlockCategory[];
+        mode?: DownloadMode;
+        resolution?: VideoResolution;
+        container?: VideoContainer;
+      };
+      const loudness: LoudnessSettings | undefined = loudnessMode === 'off'
+        ? undefined
+        : { mode: loudnessMode, targetLufs: targetLufs ?? getDefaultTargetLufs() };
+      const settings: JobSettings = {
+        quality,
+        format,
+        loudness,
+        sponsorBlock: sponsorBlockCategories.length > 0 ? sponsorBlockCategories : undefined,
+        video: mode === 'video' ? { resolution, container } : undefined
+      };
       
       if (!urls || !Array.isArray(urls) || urls.length === 0) {
         res.status(400).json({ error: 'At least one URL is required' });
@@ -178,15 +616,36 @@ export class DownloadController {
       const downloadIds = [];
       const playlistResponses = [];
       
+      const requests = urls.map(entry => typeof entry === 'string'
+        ? { url: entry, range: getRequestedRange(entry) }
+        : { url: entry.url, range: getRequestedRange(entry.url, entry.start, entry.end) });
+
+      // A playlist's t= belongs to its current video, so only explicit ranges are refused
+      const rangedPlaylist = urls.find(entry =>
+        typeof entry !== 'string' && this.isPlaylistUrl(entry.url) &&
+        (entry.start !== undefined || entry.end !== undefined));
+      if (rangedPlaylist) {
+        res.status(400).json({ error: 'Time ranges cannot be applied to playlists' });
+        return;
+      }
+
+      const hasExplicitRange = urls.some(entry =>
+        typeof entry !== 'string' && (entry.start !== undefined || entry.end !== undefined));
+      if (splitChapters && hasExplicitRange) {
+        res.status(400).json({ error: 'Time ranges cannot be combined with splitting by chapters' });
+        return;
+      }
+
       // Process each URL in the array
-      for (const url of urls) {
+      for (const { url, range } of requests) {
         if (this.isPlaylistUrl(url)) {
           // Handle playlist URL
           try {
-            const { playlistId, videoIds } = await this.processPlaylist(url, quality);
+            const { playlistId, title, videoIds } = await this.processPlaylist(url, settings);
             playlistResponses.push({
               type: 'playlist',
               id: playlistId,
+              title,
               url,
               videoIds,
               status: 'queued',
@@ -202,6 +661,34 @@ export class DownloadController {
             });
             return;
           }
+        } else if (splitChapters) {
+          // Handle a video that is split into one track per chapter
+          let info: VideoInfo;
+          try {
+            info = await this.getVideoInfo(url);
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Failed to look up video';
+            logger.error('Error looking up video for chapter split:', error);
+            res.status(500).json({ error: 'Failed to look up video', details: errorMessage });
+            return;
+          }
+
+          if (!info.chapters?.length) {
+            res.status(422).json({ error: `"${info.title}" has no chapters to split by` });
+            return;
+          }
+
+          const { playlistId, title, videoIds } = this.processChapters(url, info, settings);
+          playlistResponses.push({
+            type: 'chapters',
+            id: playlistId,
+            title,
+            url,
+            videoIds,
+            status: 'queued',
+            message: `Queued ${videoIds.length} chapters`
+          });
+          downloadIds.push(...videoIds);
         } else {
           // Handle single video URL
           const downloadId = uuidv4();
@@ -210,23 +697,16 @@ export class DownloadController {
             url,
             status: 'queued',
             progress: 0,
+            ...settings,
+            ...(isTrimmed(range) && { range }),
             lastUpdated: new Date()
           };
           
-          this.downloads.set(downloadId, downloadInfo);
+          this.addDownload(downloadInfo);
           downloadIds.push(downloadId);
           
-          // Process the download in the background
-          this.processDownload(downloadId, url, quality)
-            .catch(error => {
-              const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-              const failedDownload = this.downloads.get(downloadId);
-              if (failedDownload) {
-                failedDownload.status = 'error';
-                failedDownload.error = errorMessage;
-                failedDownload.lastUpdated = new Date();
-              }
-            });
+          // Process the download in the background once a worker slot is free
+          this.enqueueDownload(downloadId, url, quality);
         }
       }
 
@@ -243,23 +723,303 @@ export class DownloadController {
     }
   }
 
+  public async cancelDownload(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const download = this.downloads.get(id);
+
+      if (!download) {
+        res.status(404).json({ error: 'Download not found' });
+        return;
+      }
+
+      if (!CANCELLABLE_STATUSES.includes(download.status)) {
+        res.status(409).json({ error: `Download cannot be cancelled while ${download.status}` });
+        return;
+      }
+
+      await this.cancelJob(download);
+
+      res.json({ id, status: download.status });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Error cancelling download:', errorMessage);
+      res.status(500).json({ error: 'Failed to cancel download', details: errorMessage });
+    }
+  }
+
+  public async cancelPlaylist(req: Request, res: Response): Promise<void> {
+    try {
+      const { playlistId } = req.params;
+      const playlistDownloads = Array.from(this.downloads.values())
+        .filter(download => download.playlistId === playlistId);
+
+      if (playlistDownloads.length === 0) {
+        res.status(404).json({ error: 'Playlist not found' });
+        return;
+      }
+
+      // Drop waiting entries first so no new process starts while running ones are killed
+      const toCancel = playlistDownloads.filter(download => CANCELLABLE_STATUSES.includes(download.status));
+      toCancel.forEach(download => this.downloadQueue.remove(download.id));
+      await Promise.all(toCancel.map(download => this.cancelJob(download)));
+
+      res.json({
+        playlistId,
+        cancelledIds: toCancel.map(download => download.id),
+        message: `Cancelled ${toCancel.length} of ${playlistDownloads.length} download(s)`
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Error cancelling playlist:', errorMessage);
+      res.status(500).json({ error: 'Failed to cancel playlist', details: errorMessage });
+    }
+  }
+
+  public async retryDownload(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const download = this.downloads.get(id);
+
+      if (!download) {
+        res.status(404).json({ error: 'Download not found' });
+        return;
+      }
+
+      if (!RETRYABLE_STATUSES.includes(download.status)) {
+        res.status(409).json({ error: `Download cannot be retried while ${download.status}` });
+        return;
+      }
+
+      if (download.retryable === false) {
+        res.status(409).json({ error: download.errorMessage || 'Download cannot be retried', code: download.errorCode });
+        return;
+      }
+
+      // A manual retry starts a fresh series of attempts
+      this.clearRetryTimer(id);
+      this.updateDownload(download, {
+        status: 'queued',
+        progress: 0,
+        attempts: 0,
+        ...CLEARED_ERROR_FIELDS,
+        nextRetryAt: undefined
+      });
+      this.enqueueDownload(id, download.url, download.quality ?? DEFAULT_AUDIO_QUALITY);
+
+      res.status(202).json({ id, status: download.status, message: 'Download queued for retry' });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Error retrying download:', errorMessage);
+      res.status(500).json({ error: 'Failed to retry download', details: errorMessage });
+    }
+  }
+
+  /**
+   * Marks a failed attempt: transient failures are retried after a backoff
+   * delay while attempts remain, everything else fails the job
+   */
+  private handleDownloadFailure = (download: DownloadInfo, error: unknown): void => {
+    if (this.isCancelled(download)) {
+      return;
+    }
+
+    // Late failures, e.g. of the album gain pass, leave the file intact
+    if (download.status === 'completed') {
+      logger.error(`Download ${download.id} failed after completing:`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const stderr = error instanceof YtDlpProcessError ? error.stderr : '';
+    const classification = classifyYtDlpError(`${errorMessage}\n${stderr}`);
+    const attempts = download.attempts || 0;
+    const errorFields: Partial<DownloadInfo> = {
+      error: errorMessage,
+      errorCode: classification.code,
+      errorMessage: classification.message,
+      retryable: classification.retryable
+    };
+
+    logger.info(`Download ${download.id} failed with ${classification.code}`);
+
+    if (!this.retryPolicy.shouldRetry(attempts, classification.transient)) {
+      this.updateDownload(download, { ...errorFields, status: 'error', nextRetryAt: undefined });
+      return;
+    }
+
+    const delay = this.retryPolicy.getDelay(attempts);
+    logger.warn(`Download ${download.id} failed (attempt ${attempts}/${this.retryPolicy.maxAttempts}), retrying in ${delay}ms`);
+
+    this.updateDownload(download, {
+      ...errorFields,
+      status: 'retrying',
+      nextRetryAt: new Date(Date.now() + delay)
+    });
+
+    // A job fails once per attempt; never leave two retries scheduled
+    this.clearRetryTimer(download.id);
+    this.retryTimers.set(download.id, setTimeout(() => {
+      this.retryTimers.delete(download.id);
+      if (download.status !== 'retrying') {
+        return;
+      }
+
+      this.updateDownload(download, { status: 'queued', progress: 0, nextRetryAt: undefined });
+      this.enqueueDownload(download.id, download.url, download.quality ?? DEFAULT_AUDIO_QUALITY);
+    }, delay));
+  };
+
+  private clearRetryTimer = (downloadId: string): void => {
+    const timer = this.retryTimers.get(downloadId);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(downloadId);
+    }
+  };
+
+  /**
+   * Stops a job wherever it is: removes it from the queue, kills its yt-dlp
+   * process tree and deletes the files it left behind
+   */
+  private cancelJob = async (download: DownloadInfo): Promise<void> => {
+    logger.info(`Cancelling download ${download.id} (${download.status})`);
+
+    this.downloadQueue.remove(download.id);
+    this.clearRetryTimer(download.id);
+    this.updateDownload(download, { status: 'cancelled', ...CLEARED_ERROR_FIELDS, nextRetryAt: undefined });
+
+    const child = this.downloadProcesses.get(download.id);
+    if (child) {
+      await killProcessTree(child);
+      this.downloadProcesses.delete(download.id);
+    }
+
+    await this.removePartialFiles(download);
+  };
+
+  /**
+   * Removes the output and intermediate files of a job from the downloads
+   * directory. Files of another job that is still running or has completed
+   * under the same name are kept.
+   */
+  private removePartialFiles = async (download: DownloadInfo): Promise<void> => {
+    if (!download.outputPath) {
+      return;
+    }
+
+    const dir = path.dirname(download.outputPath);
+    const stem = path.parse(download.outputPath).name;
+    const isShared = Array.from(this.downloads.values()).some(other =>
+      other.id !== download.id &&
+      other.outputPath &&
+      path.parse(other.outputPath).name === stem &&
+      (other.status === 'completed' || ACTIVE_STATUSES.includes(other.status))
+    );
+    if (isShared) {
+      return;
+    }
+
+    const entries = await fs.readdir(dir).catch(() => [] as string[]);
+
+    // Sanitized titles contain no dots, so "<stem>." only matches this job's
+    // files (e.g. "<stem>.mp3", "<stem>.mp3.part", "<stem>.f251.webm")
+    for (const entry of entries.filter(name => name.startsWith(`${stem}.`))) {
+      const filePath = path.join(dir, entry);
+      try {
+        await fs.remove(filePath);
+        logger.debug(`Removed partial file: ${filePath}`);
+      } catch (cleanupError) {
+        logger.error(`Failed to remove partial file ${filePath}:`, cleanupError);
+      }
+    }
+  };
+
+  /**
+   * Server-Sent Events stream of job changes. Clients that reconnect with
+   * Last-Event-ID get the events they missed, or a 'resync' event when those
+   * are no longer available and the status endpoint has to be queried.
+   */
+  public async streamEvents(req: Request, res: Response): Promise<void> {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    const send = (event: { id: number; type: string; data: unknown }) => {
+      res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    };
+
+    // Ask the browser to wait a bit before reconnecting
+    res.write('retry: 3000\n\n');
+
+    const lastEventIdHeader = req.header('Last-Event-ID');
+    if (lastEventIdHeader) {
+      const missed = this.events.getEventsSince(Number(lastEventIdHeader));
+      if (missed) {
+        logger.debug(`Replaying ${missed.length} event(s) after ${lastEventIdHeader}`);
+        missed.forEach(send);
+      } else {
+        res.write(`event: resync\ndata: {}\n\n`);
+      }
+    }
+
+    const unsubscribe = this.events.subscribe(send);
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), EVENT_STREAM_HEARTBEAT_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  }
+
   public async getDownloadStatus(req: Request, res: Response): Promise<void> {
     try {
-      const statuses = Array.from(this.downloads.entries()).map(([id, download]) => ({
-        id: download.id,
-        url: download.url,
-        status: download.status,
-        progress: download.progress,
-        title: download.title,
-        filePath: download.status === 'completed' && download.outputPath 
-          ? path.relative(process.cwd(), download.outputPath) 
-          : undefined,
-        lastUpdated: download.lastUpdated,
-        size: download.size,
-        error: download.error
-      }));
-
-      res.json(statuses);
+      const query = req.query as Record<string, string | undefined>;
+      const ids = query.ids ? new Set(query.ids.split(',').map(id => id.trim())) : null;
+      const statuses = query.status ? query.status.split(',').map(status => status.trim()) : null;
+      const order = query.order === 'asc' ? 1 : -1;
+      const limit = Math.min(Number(query.limit) || DEFAULT_STATUS_PAGE_SIZE, MAX_STATUS_PAGE_SIZE);
+      const compact = String(query.compact) === 'true';
+      const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+
+      // Sort by createdAt, then id: neither changes while a job runs, so
+      // a job never moves between pages
+      const toCursor = (download: DownloadInfo): ListCursor => ({
+        createdAt: (download.createdAt || download.lastUpdated).getTime(),
+        id: download.id
+      });
+      const compare = (a: ListCursor, b: ListCursor) =>
+        order * (a.createdAt - b.createdAt || a.id.localeCompare(b.id));
+
+      const matching = Array.from(this.downloads.values())
+        .filter(download =>
+          (!ids || ids.has(download.id)) &&
+          (!statuses || statuses.includes(download.status)) &&
+          (!query.playlistId || download.playlistId === query.playlistId) &&
+          (!query.url || download.url === query.url)
+        )
+        .sort((a, b) => compare(toCursor(a), toCursor(b)));
+
+      const afterCursor = cursor
+        ? matching.filter(download => compare(toCursor(download), cursor) > 0)
+        : matching;
+
+      const page = afterCursor.slice(0, limit);
+      const last = page[page.length - 1];
+      const nextCursor = afterCursor.length > limit && last
+        ? encodeCursor(toCursor(last))
+        : null;
+
+      res.json({
+        items: page.map(compact ? this.toCompactStatusView : this.toStatusView),
+        nextCursor,
+        total: matching.length
+      });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logger.error('Error getting download status:', errorMessage);
@@ -276,64 +1036,69 @@ export class DownloadController {
     }
   }
 
-  private processPlaylist = async (playlistUrl: string, quality: number): Promise<{playlistId: string; videoIds: string[]}> => {
+  private processPlaylist = async (
+    playlistUrl: string,
+    settings: JobSettings
+  ): Promise<{playlistId: string; title: string; videoIds: string[]}> => {
     try {
       // Get playlist info
-      const { stdout: playlistInfo } = await execPromise(`yt-dlp --flat-playlist --dump-json --no-warnings "${playlistUrl}"`);
-      const videos = playlistInfo
-        .trim()
-        .split('\n')
-        .filter(Boolean)
-        .map(line => JSON.parse(line));
+      const playlist = await this.ytDlp.getPlaylistInfo(playlistUrl);
+      const videos = playlist.entries;
       
       if (videos.length === 0) {
         throw new Error('No videos found in playlist');
       }
 
       const playlistId = `playlist-${uuidv4().substring(0, 8)}`;
+      const title = playlist.title || 'Untitled playlist';
       const videoIds: string[] = [];
+      const downloadsToQueue: DownloadInfo[] = [];
 
       // Process each video in the playlist
-      for (const video of videos) {
-        const videoUrl = video.url || `https://youtube.com/watch?v=${video.id}`;
+      for (const [index, video] of videos.entries()) {
+        const videoUrl = video.url;
         const downloadId = uuidv4();
         
+        // The flat listing is enough to name the job; the full video info
+        // (thumbnail, release date, chapters) is looked up when it starts
+        const track = MetadataService.extractFromTitle(video.title || 'Unknown Title', video.uploader);
         const downloadInfo: DownloadInfo = {
           id: downloadId,
           url: videoUrl,
           status: 'queued',
           progress: 0,
+          ...settings,
           lastUpdated: new Date(),
           playlistId,
+          playlistIndex: index + 1,
           title: video.title || 'Unknown Title',
           metadata: {
-            title: video.title || 'Unknown Title',
-            artist: video.uploader || 'Unknown Artist',
-            album: video.playlist_title || 'Unknown Playlist',
-            year: video.upload_date ? video.upload_date.substring(0, 4) : new Date().getFullYear().toString(),
+            title: track.title,
+            artist: track.artist,
+            featuredArtists: track.featuredArtists,
+            album: title,
+            year: new Date().getFullYear().toString(),
             genre: 'Music',
-            comment: video.webpage_url || '',
+            comment: videoUrl,
             duration: video.duration || 0
           }
         };
         
-        this.downloads.set(downloadId, downloadInfo);
+        this.addDownload(downloadInfo);
         videoIds.push(downloadId);
-        
-        // Process the download in the background
-        this.processDownload(downloadId, videoUrl, quality)
-          .catch(error => {
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            const failedDownload = this.downloads.get(downloadId);
-            if (failedDownload) {
-              failedDownload.status = 'error';
-              failedDownload.error = errorMessage;
-              failedDownload.lastUpdated = new Date();
-            }
-          });
+        downloadsToQueue.push(downloadInfo);
       }
+
+      this.registerPlaylist({
+        id: playlistId,
+        url: playlistUrl,
+        title,
+        kind: 'playlist',
+        entryIds: videoIds,
+        createdAt: new Date()
+      }, downloadsToQueue, settings.quality);
       
-      return { playlistId, videoIds };
+      return { playlistId, title, videoIds };
       
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to process playlist';
@@ -343,123 +1108,363 @@ export class DownloadController {
   }
 
   /**
-   * Fetches video or playlist information using yt-dlp
+   * Queues one job per chapter of a video, each trimmed to its chapter and
+   * grouped like a playlist named after the video
    */
-  private getVideoInfo = async (url: string): Promise<VideoInfo> => {
-    try {
-      const { stdout } = await execPromise(`yt-dlp --dump-json --no-warnings "${url}"`);
-      return JSON.parse(stdout) as VideoInfo;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      logger.error('Error getting video info:', errorMessage);
-      throw new Error('Could not fetch video information');
-    }
+  private processChapters = (
+    url: string,
+    info: VideoInfo,
+    settings: JobSettings
+  ): {playlistId: string; title: string; videoIds: string[]} => {
+    const chapters = info.chapters || [];
+    const playlistId = `chapters-${uuidv4().substring(0, 8)}`;
+    const title = info.title || 'Untitled video';
+
+    const downloads: DownloadInfo[] = chapters.map((chapter, index) => ({
+      id: uuidv4(),
+      url,
+      status: 'queued',
+      progress: 0,
+      ...settings,
+      lastUpdated: new Date(),
+      playlistId,
+      playlistIndex: index + 1,
+      title: chapter.title,
+      range: { start: chapter.start_time, end: chapter.end_time },
+      chapter: { index: index + 1, total: chapters.length, title: chapter.title }
+    }));
+    downloads.forEach(download => this.addDownload(download));
+
+    this.registerPlaylist({
+      id: playlistId,
+      url,
+      title,
+      kind: 'chapters',
+      entryIds: downloads.map(download => download.id),
+      createdAt: new Date()
+    }, downloads, settings.quality);
+
+    return { playlistId, title, videoIds: downloads.map(download => download.id) };
   };
-  
+
+  /**
+   * Stores and publishes a group of jobs, then queues them
+   */
+  private registerPlaylist = (
+    playlist: PlaylistRecord,
+    downloads: DownloadInfo[],
+    quality: AudioQuality
+  ): void => {
+    // Record the playlist before any entry starts, so every entry update
+    // can be rolled up into it
+    this.playlists.set(playlist.id, playlist);
+    this.playlistStore.save(playlist);
+    this.publishPlaylist(playlist);
+
+    // Process the downloads in the background once a worker slot is free
+    downloads.forEach(download => this.enqueueDownload(download.id, download.url, quality));
+  };
+
+  /**
+   * Video information, looked up at most once per video while cached
+   */
+  private getVideoInfo = (url: string): Promise<VideoInfo> => {
+    return this.videoInfoCache.getOrLoad(getCanonicalVideoKey(url), () => this.ytDlp.getVideoInfo(url));
+  };
+  
   /**
    * Handles downloading a single video
    */
   private handleSingleDownload = async (
     download: DownloadInfo,
     info: VideoInfo,
-    quality: number
+    quality: AudioQuality
   ): Promise<void> => {
-    const outputPath = path.join(
-      this.downloadsDir,
-      `${info.title?.replace(/[^\w\s-]/g, '') || download.id}.mp3`
-    );
+    const formatSpec = AUDIO_FORMAT_SPECS[download.format || DEFAULT_AUDIO_FORMAT];
+    const fileName = info.title?.replace(/[^\w\s-]/g, '') || download.id;
+    // Clips of one video must not overwrite each other
+    let baseName = download.range ? `${fileName} ${getRangeLabel(download.range)}` : fileName;
+    if (download.chapter) {
+      const position = download.chapter.index.toString().padStart(2, '0');
+      baseName = `${fileName} - ${position} ${download.chapter.title.replace(/[^\w\s-]/g, '')}`;
+    }
+    const basePath = path.join(this.downloadsDir, await this.getFreeOutputStem(download, baseName));
+    // In passthrough mode the extension is only known once yt-dlp has
+    // picked the source stream; moveToOutputPath resolves it
+    let outputPath = formatSpec.passthrough
+      ? `${basePath}.%(ext)s`
+      : `${basePath}.${formatSpec.extension}`;
+    if (download.video) {
+      outputPath = `${basePath}.${download.video.container}`;
+    }
     
-    download.outputPath = outputPath;
-    download.progress = 10;
-    download.lastUpdated = new Date();
+    this.updateDownload(download, { outputPath, progress: 10 });
     
     // Prepare yt-dlp arguments
     const args = [
-      '--extract-audio',
-      '--audio-format', 'mp3',
-      '--audio-quality', quality.toString(),
-      '--output', outputPath,
+      ...(download.video ? toYtDlpVideoArgs(download.video) : [
+        '--extract-audio',
+        '--audio-format', formatSpec.ytDlpFormat,
+        ...(formatSpec.lossless || formatSpec.passthrough ? [] : ['--audio-quality', toYtDlpQuality(quality)])
+      ]),
+      // yt-dlp fills in the extension of the converted file
+      '--output', `${basePath}.%(ext)s`,
       '--no-mtime',
-      '--add-metadata',
-      '--embed-thumbnail',
-      '--parse-metadata', 'title:%(title)s',
-      '--parse-metadata', 'artist:%(uploader)s',
-      '--parse-metadata', 'album:%(title)s',
-      '--parse-metadata', 'comment:%(webpage_url)s',
-      download.url
+      '--no-playlist'
     ];
     
-    await this.executeYtDlp(download, args);
-  };
-  
-  /**
-   * Handles downloading a playlist
-   */
-  private handlePlaylistDownload = async (
-    download: DownloadInfo,
-    info: any,
-    quality: number
-  ): Promise<void> => {
-    // Create a dedicated directory for this playlist
-    const playlistDir = path.join(
-      this.downloadsDir,
-      `playlist_${info.id || download.id}`
-    );
+    if (download.video || formatSpec.tagStrategy !== 'none') {
+      args.push(
+        '--add-metadata',
+        '--parse-metadata', 'title:%(title)s',
+        '--parse-metadata', 'artist:%(uploader)s',
+        '--parse-metadata', 'album:%(title)s',
+        '--parse-metadata', 'comment:%(webpage_url)s'
+      );
+    }
     
-    await fs.ensureDir(playlistDir);
+    if (download.range) {
+      // Cutting at keyframes would make the clip start early
+      args.push('--download-sections', toDownloadSection(download.range), '--force-keyframes-at-cuts');
+    }
     
-    // Set output path to a zip file that will be created later
-    const zipPath = path.join(this.downloadsDir, `${info.title || 'playlist'}.zip`);
-    download.outputPath = zipPath;
-    download.progress = 10;
-    download.lastUpdated = new Date();
+    if (download.sponsorBlock) {
+      args.push(...toSponsorBlockArgs(download.sponsorBlock, this.getSponsorBlockReportPath(outputPath)));
+    }
     
-    // Prepare yt-dlp arguments for playlist
-    const args = [
-      '--extract-audio',
-      '--audio-format', 'mp3',
-      '--audio-quality', quality.toString(),
-      '--output', path.join(playlistDir, '%(title)s.%(ext)s'),
-      '--no-mtime',
-      '--add-metadata',
-      '--embed-thumbnail',
-      '--parse-metadata', 'title:%(title)s',
-      '--parse-metadata', 'artist:%(uploader)s',
-      '--parse-metadata', 'album:%(playlist_title)s',
-      '--parse-metadata', 'comment:%(webpage_url)s',
-      '--yes-playlist',
-      download.url
-    ];
+    // yt-dlp fails the whole run when asked to embed into an unsupported container
+    const embedsThumbnail = download.video
+      ? VIDEO_CONTAINER_SPECS[download.video.container].embedsThumbnail
+      : formatSpec.embedsThumbnail;
+    if (embedsThumbnail) {
+      args.push('--embed-thumbnail');
+    }
     
     await this.executeYtDlp(download, args);
-    
-    // After download completes, create a zip of the playlist directory
-    download.progress = 95;
-    download.status = 'processing';
-    download.lastUpdated = new Date();
-    
+  };
+  
+  /**
+   * Measures the converted file, and in 'normalize' mode re-encodes it to
+   * the target loudness. Failures are logged and leave the file as it was.
+   */
+  private applyLoudness = async (download: DownloadInfo): Promise<void> => {
+    const settings = download.loudness;
+    const formatSpec = AUDIO_FORMAT_SPECS[download.format || DEFAULT_AUDIO_FORMAT];
+    if (!settings || settings.mode === 'off' || !download.outputPath) {
+      return;
+    }
+
     try {
-      await this.createZipArchive(playlistDir, zipPath);
-      download.progress = 100;
-      download.status = 'completed';
-      download.lastUpdated = new Date();
-      
-      // Optionally clean up the temp directory
-      // await fs.remove(playlistDir);
-      
+      const measurement = await measureLoudness(download.outputPath, settings.targetLufs);
+      this.updateDownload(download, { loudnessMeasurement: measurement });
+
+      if (settings.mode !== 'normalize' || !formatSpec.ffmpegEncoder) {
+        return;
+      }
+
+      const encoder = formatSpec.ffmpegEncoder;
+      const audio = await MetadataService.probeAudio(download.outputPath);
+      await normalizeLoudness(download.outputPath, measurement, {
+        targetLufs: settings.targetLufs,
+        encoderArgs: [
+          '-c:a', encoder,
+          ...(formatSpec.lossless ? [] : toFfmpegQualityArgs(download.quality ?? DEFAULT_AUDIO_QUALITY, encoder))
+        ],
+        sampleRate: audio?.sampleRate || 48000
+      });
+      logger.info(`Normalized ${path.basename(download.outputPath)} from ${measurement.integrated} to ${settings.targetLufs} LUFS`);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to create zip archive';
-      logger.error('Error creating zip archive:', error);
-      throw new Error(`Download completed but failed to create zip: ${errorMessage}`);
+      logger.error(`Loudness ${settings.mode} failed for download ${download.id}:`, error);
+    }
+  };
+
+  /**
+   * Artist, title and album to tag a job with. yt-dlp's own music fields
+   * win; otherwise they are parsed from the video (or chapter) title.
+   */
+  private getTrackNames = (
+    download: DownloadInfo,
+    info: { title: string; uploader?: string; artist?: string; track?: string; album?: string }
+  ): ParsedTitle & { album: string } => {
+    const video = MetadataService.extractFromTitle(info.title, info.uploader);
+    const artist = info.artist || video.artist;
+
+    // Chapters of a compilation name their own artist; album chapters fall
+    // back to the artist of the video
+    if (download.chapter) {
+      const chapter = MetadataService.extractFromTitle(download.chapter.title, artist);
+      return { ...chapter, album: info.album || video.title };
+    }
+
+    const playlist = download.playlistId ? this.playlists.get(download.playlistId) : undefined;
+    return {
+      ...video,
+      artist,
+      title: info.track || video.title,
+      album: info.album || (playlist && playlist.kind !== 'chapters' ? playlist.title : video.title)
+    };
+  };
+
+  /**
+   * Once no track of a job's playlist is running any more, tags every
+   * completed track with the album gain of the whole playlist
+   */
+  private writeAlbumGain = async (download: DownloadInfo): Promise<void> => {
+    const playlist = download.playlistId ? this.playlists.get(download.playlistId) : undefined;
+    if (!playlist || download.loudness?.mode !== 'replaygain') {
+      return;
+    }
+
+    const entries = playlist.entryIds
+      .map(id => this.downloads.get(id))
+      .filter((entry): entry is DownloadInfo => !!entry);
+    if (entries.some(entry => ACTIVE_STATUSES.includes(entry.status))) {
+      return;
+    }
+
+    const tracks = entries.filter(entry =>
+      entry.status === 'completed' && entry.outputPath && entry.loudnessMeasurement && entry.replayGain);
+    const album = toAlbumGain(tracks.map(track => ({
+      measurement: track.loudnessMeasurement as LoudnessMeasurement,
+      duration: track.metadata?.duration || 0
+    })));
+    if (!album) {
+      return;
+    }
+
+    for (const track of tracks) {
+      const replayGain = { ...(track.replayGain as ReplayGain), ...album };
+      if (await MetadataService.writeReplayGain(track.outputPath as string, replayGain)) {
+        this.updateDownload(track, { replayGain });
+      }
+    }
+    logger.info(`Wrote album gain ${album.albumGain.toFixed(2)} dB to ${tracks.length} track(s) of ${playlist.id}`);
+  };
+
+  /**
+   * Chapter markers for a job's file: the video's chapters, shifted and
+   * clipped to the downloaded range and to what SponsorBlock left of it.
+   * Chapter-split jobs have none of their own.
+   */
+  private getChapterMarkers = (download: DownloadInfo, chapters?: VideoChapter[]): ChapterMarker[] => {
+    if (!chapters?.length || download.chapter) {
+      return [];
+    }
+
+    const start = download.range?.start ?? 0;
+    const end = download.range?.end ?? Infinity;
+    // Position in the file of a point in the video
+    const toFileTime = (time: number) =>
+      time - start - getRemovedDuration(download.removedSegments || [], start, time);
+
+    return chapters
+      .filter(chapter => chapter.end_time > start && chapter.start_time < end)
+      .map(chapter => ({
+        title: chapter.title,
+        startTime: toFileTime(Math.max(chapter.start_time, start)),
+        endTime: toFileTime(Math.min(chapter.end_time, end))
+      }))
+      // Chapters SponsorBlock removed entirely
+      .filter(marker => marker.endTime > marker.startTime);
+  };
+
+  /**
+   * File yt-dlp reports the removed SponsorBlock segments to; named after
+   * the output so removePartialFiles cleans it up with the job's other files
+   */
+  private getSponsorBlockReportPath = (outputPath: string): string =>
+    path.join(path.dirname(outputPath), `${path.parse(outputPath).name}.sponsorblock.json`);
+
+  /**
+   * The base name, or "<base name> (2)", "(3)"... when another job already
+   * writes to it or a file starts with it, so concurrent jobs for the same
+   * video never share files. A retried job keeps the name it had.
+   */
+  private getFreeOutputStem = async (download: DownloadInfo, baseName: string): Promise<string> => {
+    const ownStem = download.outputPath ? path.parse(download.outputPath).name : undefined;
+    if (ownStem && (ownStem === baseName || ownStem.startsWith(`${baseName} (`))) {
+      return ownStem;
+    }
+
+    const entries = await fs.readdir(this.downloadsDir).catch(() => [] as string[]);
+    // Checked after the await, so jobs that started meanwhile are seen
+    const claimedStems = new Set(
+      Array.from(this.downloads.values())
+        .filter(other => other.id !== download.id && other.outputPath)
+        .map(other => path.parse(other.outputPath as string).name)
+    );
+    const isFree = (stem: string): boolean =>
+      !claimedStems.has(stem) && !entries.some(name => name.startsWith(`${stem}.`));
+
+    let stem = baseName;
+    for (let suffix = 2; !isFree(stem); suffix++) {
+      stem = `${baseName} (${suffix})`;
+    }
+    return stem;
+  };
+
+  /**
+   * Renames the converted file where yt-dlp's extension differs from ours,
+   * and finds the remuxed file in passthrough mode
+   */
+  private moveToOutputPath = async (download: DownloadInfo): Promise<void> => {
+    // Videos are merged straight into the requested container
+    if (download.video) {
+      return;
+    }
+
+    const formatSpec = AUDIO_FORMAT_SPECS[download.format || DEFAULT_AUDIO_FORMAT];
+    if (download.outputPath && formatSpec.passthrough) {
+      const outputPath = await this.findPassthroughOutput(download.outputPath);
+      if (outputPath) {
+        this.updateDownload(download, { outputPath });
+      }
+      return;
+    }
+
+    if (!download.outputPath || formatSpec.ytDlpExtension === formatSpec.extension) {
+      return;
+    }
+
+    const ytDlpPath = download.outputPath.replace(/\.[^.]+$/, `.${formatSpec.ytDlpExtension}`);
+    if (fs.existsSync(ytDlpPath)) {
+      await fs.move(ytDlpPath, download.outputPath, { overwrite: true });
     }
   };
   
+  /**
+   * Newest audio file yt-dlp wrote for the output template's stem
+   */
+  private findPassthroughOutput = async (templatePath: string): Promise<string | undefined> => {
+    const dir = path.dirname(templatePath);
+    const stem = path.parse(templatePath).name;
+    const entries = await fs.readdir(dir).catch(() => [] as string[]);
+
+    const candidates = await Promise.all(
+      entries
+        .filter(name => name.startsWith(`${stem}.`))
+        .filter(name => PASSTHROUGH_EXTENSIONS.includes(path.extname(name).slice(1).toLowerCase()))
+        .map(async name => {
+          const filePath = path.join(dir, name);
+          const stats = await fs.promises.stat(filePath);
+          return { filePath, mtimeMs: stats.mtimeMs };
+        })
+    );
+
+    return candidates.sort((a, b) => b.mtimeMs - a.mtimeMs)[0]?.filePath;
+  };
+  
   /**
    * Executes yt-dlp with the given arguments and handles progress updates
    */
   private executeYtDlp = async (download: DownloadInfo, args: string[]): Promise<void> => {
     return new Promise((resolve, reject) => {
-      const ytdlp = spawn('yt-dlp', args);
+      // The job may have been cancelled while its info was being fetched
+      if (this.isCancelled(download)) {
+        return resolve();
+      }
+      
+      const ytdlp = this.ytDlp.spawnDownload(download.url, args);
       
       // Store process reference for potential cancellation
       this.downloadProcesses.set(download.id, ytdlp);
@@ -473,71 +1478,46 @@ export class DownloadController {
           if (progressMatch && download.status === 'downloading') {
             // Scale progress based on current status (start at 10% to leave room for processing)
             const progress = parseFloat(progressMatch[1]);
-            download.progress = 10 + (progress * 0.8); // Scale to 10-90%
-            download.lastUpdated = new Date();
+            this.reportProgress(download, 10 + (progress * 0.8)); // Scale to 10-90%
           }
         });
       }
       
+      let stderr = '';
       if (ytdlp.stderr) {
         ytdlp.stderr.on('data', (data: Buffer) => {
           logger.error(`yt-dlp stderr: ${data.toString()}`);
+          stderr = (stderr + data.toString()).slice(-MAX_STDERR_LENGTH);
         });
       }
       
-      // Handle process completion
-      ytdlp.on('close', this.onCloseCallback(download.id, resolve, reject));
-    });
-  };
-  
-  /**
-   * Creates a zip archive of a directory
-   */
-  private createZipArchive = async (sourceDir: string, outPath: string): Promise<void> => {
-    const archiver = require('archiver');
-    const output = fs.createWriteStream(outPath);
-    const archive = archiver('zip', { zlib: { level: 9 } });
-    
-    return new Promise((resolve, reject) => {
-      output.on('close', () => {
-        logger.info(`Created zip archive: ${outPath} (${archive.pointer()} bytes)`);
-        resolve();
-      });
-      
-      archive.on('warning', (err: Error & { code?: string }) => {
-        if (err.code === 'ENOENT') {
-          logger.warn('Archive warning:', err);
-        } else {
-          reject(err);
-        }
+      // A missing yt-dlp binary is reported here, followed by 'close'
+      ytdlp.on('error', (error: Error) => {
+        reject(new YtDlpProcessError(null, error.message, `Could not start yt-dlp: ${error.message}`));
       });
       
-      archive.on('error', (err: Error) => {
-        reject(err);
-      });
-      
-      // Pipe archive data to the file
-      archive.pipe(output);
-      
-      // Add files from directory to archive
-      archive.directory(sourceDir, false);
-      
-      // Finalize the archive
-      archive.finalize();
+      // Handle process completion
+      ytdlp.on('close', this.onCloseCallback(download.id, resolve, reject, () => stderr));
     });
   };
-
+  
   /**
-   * Processes a download for either a single video or a playlist
+   * Processes the download of a single video; playlists are split into
+   * one job per video by processPlaylist
    */
-  private processDownload = async (downloadId: string, url: string, quality: number): Promise<void> => {
+  private processDownload = async (downloadId: string, url: string, quality: AudioQuality): Promise<void> => {
     const download = this.downloads.get(downloadId);
     if (!download) {
       logger.error(`Download not found for ID: ${downloadId}`);
       throw new Error('Download not found');
     }
     
-    // Skip if already completed or in progress
+    // Skip if already completed, cancelled or in progress
+    if (download.status === 'cancelled') {
+      logger.info(`Download ${downloadId} was cancelled`);
+      return;
+    }
+    
     if (download.status === 'completed') {
       logger.info(`Download ${downloadId} already completed`);
       return;
@@ -548,268 +1528,64 @@ export class DownloadController {
       return;
     }
     
-    // Check if this is a playlist URL
-    const isPlaylist = this.isPlaylistUrl(url);
-    
     try {
       // Update status to downloading
-      download.status = 'downloading';
-      download.progress = 5; // Initial progress
-      download.lastUpdated = new Date();
+      this.updateDownload(download, {
+        status: 'downloading',
+        progress: 5, // Initial progress
+        attempts: (download.attempts || 0) + 1,
+        ...CLEARED_ERROR_FIELDS,
+        nextRetryAt: undefined
+      });
       
       // Get video/playlist info first
       const info = await this.getVideoInfo(url);
-      if (!info) {
-        throw new Error('Could not fetch video/playlist information');
-      }
       
-      // Set download title
-      download.title = info.title || 'Untitled';
+      // Set download title; a chapter keeps its own
+      this.updateDownload(download, { title: download.chapter?.title || info.title || 'Untitled' });
       
       // Create output directory if it doesn't exist
       await fs.ensureDir(this.downloadsDir);
       
-      if (isPlaylist) {
-        await this.handlePlaylistDownload(download, info, quality);
-      } else {
-        await this.handleSingleDownload(download, info, quality);
-      }
+      await this.handleSingleDownload(download, info, quality);
       
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logger.error(`Download failed for ${url}:`, error);
       
-      // Update download status
-      if (download) {
-        download.status = 'error';
-        download.error = errorMessage;
-        download.lastUpdated = new Date();
-      }
-      
       // Clean up any partial downloads
-      if (download?.outputPath && fs.existsSync(download.outputPath)) {
+      if (download.outputPath && fs.existsSync(download.outputPath)) {
         try {
           await fs.promises.unlink(download.outputPath);
         } catch (cleanupError) {
           logger.error('Error cleaning up partial download:', cleanupError);
         }
       }
-    }
-    
-    try {
-      // Update status to downloading
-      download.status = 'downloading';
-      download.progress = 10;
-      download.lastUpdated = new Date();
-      
-      // Set output paths - use UUID as the filename during processing
-      const tempDirPath = path.join(os.tmpdir(), 'yt-dlp-downloads');
-      await fs.ensureDir(tempDirPath);
-      
-      const tempOutputFilePath = path.join(tempDirPath, `${downloadId}.mp3`);
-      const sanitizedTitle = download.title ? 
-        download.title.replace(/[^\w\s-]/g, '').replace(/\s+/g, '_').toLowerCase() : 
-        `${downloadId}`;
-      const finalOutputPath = path.join(this.downloadsDir, `${sanitizedTitle}.mp3`);
       
-      // Update download object with paths
-      download.outputPath = finalOutputPath;
-
-      // Build yt-dlp command to get video info
-      const infoArgs = [
-        '--dump-json',
-        '--no-warnings',
-        '--quiet',
-        download.url
-      ];
-
-      // Update download status
-      download.status = 'downloading';
-      download.lastUpdated = new Date();
-      download.progress = 0;
-
-      try {
-        // Get video info first to get the title
-        const info = await this.getVideoInfo(url);
-        if (!info.title) {
-          throw new Error('Could not get video title');
-        }
-
-        // Sanitize the title for use in filenames
-        const sanitizedTitle = info.title.replace(/[^\w\s-]/g, '').replace(/\s+/g, '_');
-        const outputFilename = `${sanitizedTitle}.mp3`;
-        const outputPath = path.join(this.downloadsDir, outputFilename);
-
-        // Update download info with title and output path
-        download.title = info.title;
-        download.outputPath = outputPath;
-        download.lastUpdated = new Date();
-
-        // Prepare yt-dlp arguments
-        const args: string[] = [
-          '--extract-audio',
-          '--audio-format', 'mp3',
-          '--audio-quality', quality.toString(),
-          '--output', outputPath,
-          '--no-mtime',
-          '--no-playlist',
-          '--add-metadata',
-          '--embed-thumbnail',
-          '--parse-metadata', 'title:%(title)s',
-          '--parse-metadata', 'artist:%(uploader)s',
-          '--parse-metadata', 'album:%(title)s',
-          '--parse-metadata', 'comment:%(webpage_url)s',
-          url
-        ];
-
-        // Start the download process
-        const ytdlp = spawn('yt-dlp', args);
-
-        // Store the process reference for potential cancellation
-        this.downloadProcesses.set(downloadId, ytdlp);
-
-        // Handle process events
-        if (ytdlp.stdout) {
-          ytdlp.stdout.on('data', (data: Buffer) => {
-            const output = data.toString();
-            // Parse progress if possible
-            const progressMatch = output.match(/\[download\]\s+(\d+\.?\d*)%/);
-            if (progressMatch) {
-              download.progress = parseFloat(progressMatch[1]);
-              download.lastUpdated = new Date();
-            }
-          });
-        }
-
-        if (ytdlp.stderr) {
-          ytdlp.stderr.on('data', (data: Buffer) => {
-            logger.error(`yt-dlp stderr: ${data.toString()}`);
-          });
-        }
-
-        // Handle process completion
-        return new Promise<void>((resolve, reject) => {
-          const onClose = async (code: number | null) => {
-            this.downloadProcesses.delete(downloadId);
-
-            if (code !== 0) {
-              const error = new Error(`yt-dlp process exited with code ${code}`);
-              logger.error(error.message);
-              
-              download.status = 'error';
-              download.error = error.message;
-              download.lastUpdated = new Date();
-              
-              return reject(error);
-            }
-
-            try {
-              // Verify the file was created
-              if (!download.outputPath || !fs.existsSync(download.outputPath)) {
-                throw new Error('Output file was not created');
-              }
-
-              // Get file stats
-              const stats = await fs.promises.stat(download.outputPath);
-              if (stats.size === 0) {
-                await fs.promises.unlink(download.outputPath);
-                throw new Error('Downloaded file is empty');
-              }
-
-              // Set metadata
-              download.metadata = {
-                title: info.title || 'Unknown Title',
-                artist: info.uploader || 'Unknown Artist',
-                album: info.title || 'Unknown Album',
-                year: info.upload_date ? info.upload_date.substring(0, 4) : new Date().getFullYear().toString(),
-                genre: info.categories ? info.categories[0] || 'Unknown' : 'Unknown',
-                comment: info.webpage_url || '',
-                duration: info.duration || 0
-              };
-
-              // Write metadata using MetadataService
-              try {
-                await MetadataService.writeTags(download.outputPath, {
-                  title: download.metadata.title,
-                  artist: download.metadata.artist,
-                  album: download.metadata.album,
-                  year: download.metadata.year,
-                  genre: download.metadata.genre,
-                  comment: download.metadata.comment,
-                  duration: download.metadata.duration
-                });
-                logger.info(`Successfully wrote metadata to ${download.outputPath}`);
-              } catch (metadataError) {
-                logger.error(`Failed to write metadata: ${metadataError instanceof Error ? metadataError.message : 'Unknown error'}`);
-                // Don't fail the download if metadata writing fails
-              }
-
-              // Update download info
-              download.status = 'completed';
-              download.progress = 100;
-              download.size = stats.size;
-              download.lastUpdated = new Date();
-
-              resolve();
-            } catch (error) {
-              if (download.outputPath && fs.existsSync(download.outputPath)) {
-                await fs.promises.unlink(download.outputPath).catch(() => {
-                  // Ignore errors during cleanup
-                });
-              }
-              
-              const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-              download.status = 'error';
-              download.error = errorMessage;
-              download.lastUpdated = new Date();
-              
-              reject(new Error(errorMessage));
-            }
-          };
-
-          ytdlp.on('close', onClose);
-        });
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        logger.error(`Download failed for ${url}:`, error);
-        
-        // Clean up partially downloaded file if it exists
-        if (download.outputPath && fs.existsSync(download.outputPath)) {
-          try {
-            fs.unlinkSync(download.outputPath);
-            logger.debug(`Cleaned up partially downloaded file: ${download.outputPath}`);
-          } catch (cleanupError) {
-            const cleanupErrorMessage = cleanupError instanceof Error ? cleanupError.message : String(cleanupError);
-            logger.error(`Failed to clean up file ${download.outputPath}:`, cleanupErrorMessage);
-          }
-        }
-        
-        // Update download status to error
-        const failedDownload = this.downloads.get(downloadId);
-        if (failedDownload) {
-          failedDownload.status = 'error';
-          failedDownload.error = errorMessage;
-          failedDownload.lastUpdated = new Date();
-        }
-      }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      logger.error('Error processing download:', error);
-      
-      // Update download status to error
-      const failedDownload = this.downloads.get(downloadId);
-      if (failedDownload) {
-        failedDownload.status = 'error';
-        failedDownload.error = errorMessage;
-        failedDownload.lastUpdated = new Date();
-      }
+      this.handleDownloadFailure(download, error);
     }
+
+    await this.writeAlbumGain(download);
   }
 
   // Handle file download
   public async downloadFile(req: Request, res: Response): Promise<void> {
-    let fileStream: fs.ReadStream | null = null;
-    
+    await this.sendOutputFile(req, res, 'attachment');
+  }
+
+  /**
+   * Streams a finished file for playback in the browser
+   */
+  public async streamFile(req: Request, res: Response): Promise<void> {
+    // Helmet only allows same-origin embedding, but the player runs on the frontend's origin
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    await this.sendOutputFile(req, res, 'inline');
+  }
+
+  private sendOutputFile = async (
+    req: Request,
+    res: Response,
+    disposition: 'attachment' | 'inline'
+  ): Promise<void> => {
     try {
       const { id } = req.params;
       if (!id) {
@@ -817,8 +1593,6 @@ export class DownloadController {
         return;
       }
 
-      logger.info(`Starting file download for ID: ${id}`);
-      
       const download = this.downloads.get(id);
       if (!download || download.status !== 'completed' || !download.outputPath) {
         const errorMsg = 'File not found or not ready for download';
@@ -827,79 +1601,30 @@ export class DownloadController {
         return;
       }
 
-      logger.info(`File path: ${download.outputPath}`);
-      
       if (!fs.existsSync(download.outputPath)) {
-        const errorMsg = `File not found on server at path: ${download.outputPath}`;
-        logger.error(errorMsg);
+        logger.error(`File not found on server at path: ${download.outputPath}`);
         res.status(404).json({ error: 'File not found on server' });
         return;
       }
 
-      const stats = await fs.promises.stat(download.outputPath);
-      const filename = path.basename(download.outputPath);
-      
-      logger.info(`Sending file: ${filename}, size: ${stats.size} bytes`);
-      
-      // Set appropriate headers
-      res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(filename)}"`);
-      res.setHeader('Content-Type', 'audio/mpeg');
-      res.setHeader('Content-Length', stats.size);
-      res.setHeader('Cache-Control', 'no-cache');
-      res.setHeader('Pragma', 'no-cache');
-      res.setHeader('Expires', '0');
-
-      fileStream = fs.createReadStream(download.outputPath);
-      
-      fileStream.on('error', (error: Error) => {
-        logger.error('Error streaming file:', { 
-          error: error.message, 
-          stack: error.stack,
-          path: download.outputPath,
-          exists: fs.existsSync(download.outputPath!)
-        });
-        
-        if (!res.headersSent) {
-          res.status(500).json({ 
-            error: 'Error streaming file',
-            details: error.message
-          });
-        }
-      });
-      
-      fileStream.on('open', () => {
-        logger.info(`File stream opened for: ${filename}`);
-      });
-      
-      fileStream.on('end', () => {
-        logger.info(`File stream ended for: ${filename}`);
-      });
-      
-      req.on('close', () => {
-        logger.info(`Request closed for file: ${filename}`);
-        if (fileStream) {
-          fileStream.destroy();
-        }
+      logger.info(`Sending file for ID ${id} (${disposition})`, { range: req.headers.range });
+
+      await sendFileWithRanges(req, res, download.outputPath, {
+        contentType: download.video
+          ? VIDEO_CONTAINER_SPECS[download.video.container].mimeType
+          : getMimeTypeForFile(download.outputPath),
+        fileName: path.basename(download.outputPath),
+        disposition
       });
-      
-      // Pipe the file to the response
-      fileStream.pipe(res);
-      
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      const errorStack = error instanceof Error ? error.stack : undefined;
       
-      logger.error('Error in downloadFile:', { 
+      logger.error('Error sending file:', { 
         error: errorMessage,
-        stack: errorStack,
+        stack: error instanceof Error ? error.stack : undefined,
         id: req.params.id
       });
       
-      // Clean up the file stream if it was created
-      if (fileStream) {
-        fileStream.destroy();
-      }
-      
       if (!res.headersSent) {
         res.status(500).json({ 
           error: 'Internal server error', 
@@ -907,6 +1632,160 @@ export class DownloadController {
         });
       }
     }
+  };
+
+  /**
+   * Tags read back from a finished MP3, including its chapter markers
+   */
+  public async getTrackTags(req: Request, res: Response): Promise<void> {
+    const download = this.downloads.get(req.params.id);
+    if (!download || download.status !== 'completed' || !download.outputPath) {
+      res.status(404).json({ error: 'File not found or not ready' });
+      return;
+    }
+
+    if (getFormatSpecForFile(download.outputPath)?.tagStrategy !== 'id3') {
+      res.status(409).json({ error: 'Tags can only be read from MP3 files' });
+      return;
+    }
+
+    const tags = MetadataService.readTags(download.outputPath);
+    if (!tags) {
+      res.status(404).json({ error: 'Could not read tags from file' });
+      return;
+    }
+
+    res.json({ id: download.id, tags });
+  }
+
+  /**
+   * Serves the square cover embedded in a finished file
+   */
+  public async getCoverArt(req: Request, res: Response): Promise<void> {
+    const download = this.downloads.get(req.params.id);
+    if (!download?.coverPath || !fs.existsSync(download.coverPath)) {
+      res.status(404).json({ error: 'No cover art for this download' });
+      return;
+    }
+
+    // Shown by the frontend, which runs on another origin
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    await sendFileWithRanges(req, res, download.coverPath, {
+      contentType: 'image/jpeg',
+      fileName: `${path.parse(download.outputPath || download.coverPath).name}.jpg`,
+      disposition: 'inline'
+    });
+  }
+
+  /**
+   * Lists playlists, newest first
+   */
+  public async getPlaylists(req: Request, res: Response): Promise<void> {
+    try {
+      const items = Array.from(this.playlists.values())
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .map(this.toPlaylistView);
+
+      res.json({ items });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Error getting playlists:', errorMessage);
+      res.status(500).json({ error: 'Failed to get playlists', details: errorMessage });
+    }
+  }
+
+  public async getPlaylist(req: Request, res: Response): Promise<void> {
+    try {
+      const playlist = this.playlists.get(req.params.id);
+      if (!playlist) {
+        res.status(404).json({ error: 'Playlist not found' });
+        return;
+      }
+
+      res.json(this.toPlaylistView(playlist));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Error getting playlist:', errorMessage);
+      res.status(500).json({ error: 'Failed to get playlist', details: errorMessage });
+    }
+  }
+
+  /**
+   * Streams a ZIP of every completed track of a playlist. The archive is
+   * built while it is sent, tracks are named after their playlist position.
+   */
+  public async downloadPlaylistArchive(req: Request, res: Response): Promise<void> {
+    const { playlistId } = req.params;
+    const playlist = this.playlists.get(playlistId);
+
+    if (!playlist) {
+      res.status(404).json({ error: 'Playlist not found' });
+      return;
+    }
+
+    const entries = playlist.entryIds
+      .map(id => this.downloads.get(id))
+      .filter((download): download is DownloadInfo => !!download);
+
+    const tracks = entries
+      .filter((download): download is DownloadInfo & { outputPath: string } =>
+        download.status === 'completed' && !!download.outputPath && fs.existsSync(download.outputPath)
+      )
+      .sort((a, b) => (a.playlistIndex || 0) - (b.playlistIndex || 0));
+
+    if (tracks.length === 0) {
+      res.status(409).json({ error: 'No completed tracks in this playlist yet' });
+      return;
+    }
+
+    const digits = String(entries.length).length;
+    const archiveName = `${this.toFileName(playlist.title)}.zip`;
+
+    logger.info(`Streaming archive of ${tracks.length}/${entries.length} track(s) for playlist ${playlistId}`);
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', toContentDisposition('attachment', archiveName));
+    res.setHeader('Cache-Control', 'no-cache');
+
+    const archive = archiver('zip');
+
+    archive.on('warning', (error: Error) => {
+      logger.warn('Playlist archive warning:', error);
+    });
+
+    archive.on('error', (error: Error) => {
+      logger.error('Error building playlist archive:', error);
+      // Headers are already out, the client can only tell from the broken stream
+      res.destroy(error);
+    });
+
+    req.on('close', () => {
+      if (!res.writableFinished) {
+        archive.abort();
+      }
+    });
+
+    archive.pipe(res);
+
+    for (const track of tracks) {
+      const position = String(track.playlistIndex || 0).padStart(digits, '0');
+      const title = this.toFileName(track.title || track.id);
+      const entry: archiver.ZipEntryData = {
+        name: `${position} - ${title}${path.extname(track.outputPath)}`,
+        // Compressed audio does not shrink any further, so only WAV is deflated
+        store: getFormatSpecForFile(track.outputPath)?.extension !== 'wav'
+      };
+      archive.file(track.outputPath, entry);
+    }
+
+    await archive.finalize();
+  }
+
+  /**
+   * Strips characters that are not safe in file names
+   */
+  private toFileName(name: string): string {
+    return name.replace(/[\\/:*?"<>|]/g, '').trim() || 'download';
   }
 }
 
@@ -1,17 +1,16 @@
+// Load environment variables from .env file before any module reads them
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import rateLimit from 'express-rate-limit';
-import { config } from 'dotenv';
 import { errorHandler } from './middleware/errorHandler';
 import { notFoundHandler } from './middleware/notFoundHandler';
 import { requestLogger } from './middleware/requestLogger';
 import { apiRouter } from './routes/api';
 import { logger, stream } from './utils/logger';
-
-// Load environment variables from .env file
-config();
+import { killAllProcessTrees } from './utils/processTree';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -64,9 +63,19 @@ process.on('uncaughtException', (error) => {
 });
 
 // Handle process termination
-const gracefulShutdown = (signal: string) => {
+const gracefulShutdown = async (signal: string) => {
   console.log(`\n${signal} received. Shutting down gracefully...`);
   
+  // Force close the server after 10 seconds
+  setTimeout(() => {
+    console.error('Could not close connections in time, forcefully shutting down');
+    process.exit(1);
+  }, 10000);
+
+  // yt-dlp and ffmpeg run in process groups of their own, which would keep
+  // writing after the server is gone
+  await killAllProcessTrees(3000);
+
   // Stop accepting new connections
   server.close((err) => {
     if (err) {
@@ -76,12 +85,6 @@ const gracefulShutdown = (signal: string) => {
     console.log('Server closed');
     process.exit(0);
   });
-  
-  // Force close the server after 10 seconds
-  setTimeout(() => {
-    console.error('Could not close connections in time, forcefully shutting down');
-    process.exit(1);
-  }, 10000);
 };
 
 // Start server
@@ -1,34 +1,160 @@
 import { body, query, validationResult } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
+import { decodeCursor } from '../utils/cursor';
+import { getRequestedRange, parseTimestamp } from '../utils/timeRange';
+import { LOUDNESS_MODES, MAX_TARGET_LUFS, MIN_TARGET_LUFS } from '../services/loudness';
+import { DEFAULT_SPONSORBLOCK_CATEGORIES, SPONSORBLOCK_CATEGORIES } from '../services/sponsorBlock';
+import { DownloadRequestEntry } from '../types/download';
+import { DOWNLOAD_STATUSES } from '../types/download';
+import { AUDIO_FORMATS } from '../services/audioFormats';
+import { DOWNLOAD_MODES, VIDEO_CONTAINERS, VIDEO_RESOLUTIONS } from '../services/videoFormats';
+import { MAX_CBR_BITRATE, MIN_CBR_BITRATE, parseAudioQuality } from '../services/audioQuality';
+
+export const MAX_STATUS_PAGE_SIZE = 500;
+
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    logger.warn('Validation failed', { errors: errors.array() });
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array()
+    });
+  }
+  next();
+};
+
+// Comma separated list, e.g. "a,b,c"
+const splitList = (value: string): string[] =>
+  value.split(',').map(item => item.trim()).filter(Boolean);
 
 export const validateStartDownload = [
   body('urls')
     .isArray({ min: 1 })
     .withMessage('At least one URL is required')
-    .custom((urls: string[]) => {
+    .custom((urls: DownloadRequestEntry[]) => {
       const urlPattern = /^(https?:\/\/)?([\w-]+\.)+[\w-]+(\/[\w- .\/?%&=]*)?$/;
-      return urls.every(url => urlPattern.test(url));
+      return urls.every(entry => {
+        const url = typeof entry === 'string' ? entry : entry?.url;
+        return typeof url === 'string' && urlPattern.test(url);
+      });
     })
     .withMessage('One or more URLs are invalid'),
+  // Entries are URLs, or { url, start, end } to download only part of a video
+  body(['urls.*.start', 'urls.*.end'])
+    .optional()
+    .custom((value) => parseTimestamp(value) !== null)
+    .withMessage('start and end must be seconds or timestamps like 1:30 or 1m30s'),
+  body('urls.*')
+    .custom((entry: DownloadRequestEntry) => {
+      const range = typeof entry === 'string'
+        ? getRequestedRange(entry)
+        : getRequestedRange(entry.url, entry.start, entry.end);
+      return range.end === undefined || range.end > (range.start ?? 0);
+    })
+    .withMessage('end must be after start'),
+  body('mode')
+    .optional()
+    .isIn(DOWNLOAD_MODES)
+    .withMessage(`mode must be one of: ${DOWNLOAD_MODES.join(', ')}`),
+  // Videos keep the source audio, so they need no quality
   body('quality')
-    .isNumeric()
-    .withMessage('Quality must be a number')
-    .custom((value) => {
-      const numericValue = Number(value);
-      return numericValue === 0 || (numericValue >= 96 && numericValue <= 320);
+    .if((value, { req }) => value !== undefined || req.body.mode !== 'video')
+    .custom((value) => parseAudioQuality(value) !== null)
+    .withMessage(`Quality must be a bitrate between ${MIN_CBR_BITRATE} and ${MAX_CBR_BITRATE} kbps, V0 to V9, or 0 (best)`)
+    .customSanitizer((value) => parseAudioQuality(value)),
+  body('format')
+    .optional()
+    .isIn(AUDIO_FORMATS)
+    .withMessage(`Format must be one of: ${AUDIO_FORMATS.join(', ')}`),
+  body('loudness')
+    .optional()
+    .isIn(LOUDNESS_MODES)
+    .withMessage(`loudness must be one of: ${LOUDNESS_MODES.join(', ')}`)
+    .custom((value, { req }) => value === 'off' || req.body.mode !== 'video')
+    .withMessage('Loudness processing only applies to audio downloads')
+    // Normalizing re-encodes, which the original-audio mode exists to avoid
+    .custom((value, { req }) => !(value === 'normalize' && req.body.format === 'original'))
+    .withMessage('Original audio cannot be normalized; use replaygain instead'),
+  body('targetLufs')
+    .optional()
+    .isFloat({ min: MIN_TARGET_LUFS, max: MAX_TARGET_LUFS })
+    .withMessage(`targetLufs must be between ${MIN_TARGET_LUFS} and ${MAX_TARGET_LUFS}`)
+    .toFloat(),
+  // true removes the default non-music categories, a list removes those
+  body('sponsorBlock')
+    .optional()
+    .custom((value) => typeof value === 'boolean' || (
+      Array.isArray(value) &&
+      value.every(category => (SPONSORBLOCK_CATEGORIES as readonly string[]).includes(category))
+    ))
+    .withMessage(`sponsorBlock must be true, false or a list of: ${SPONSORBLOCK_CATEGORIES.join(', ')}`)
+    .customSanitizer((value) => value === true ? DEFAULT_SPONSORBLOCK_CATEGORIES : value || []),
+  // "1080p" and 1080 both mean a 1080 pixel high video at most
+  body('resolution')
+    .optional()
+    .customSanitizer((value) => String(value).replace(/p$/i, ''))
+    .isIn(VIDEO_RESOLUTIONS)
+    .withMessage(`resolution must be one of: ${VIDEO_RESOLUTIONS.join(', ')}`),
+  body('container')
+    .optional()
+    .isIn(VIDEO_CONTAINERS)
+    .withMessage(`container must be one of: ${VIDEO_CONTAINERS.join(', ')}`),
+  body('splitChapters')
+    .optional()
+    .isBoolean()
+    .withMessage('splitChapters must be true or false')
+    .toBoolean(),
+  handleValidationErrors
+];
+
+export const validateDownloadStatusQuery = [
+  query('ids')
+    .optional()
+    .isString()
+    .custom((value: string) => splitList(value).length > 0)
+    .withMessage('ids must be a comma separated list of download IDs'),
+  query('status')
+    .optional()
+    .isString()
+    .custom((value: string) => {
+      const statuses = splitList(value);
+      return statuses.length > 0 &&
+        statuses.every(status => (DOWNLOAD_STATUSES as readonly string[]).includes(status));
     })
-    .withMessage('Quality must be 0 (best) or between 96 and 320 kbps'),
-  (req: Request, res: Response, next: NextFunction) => {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      logger.warn('Validation failed', { errors: errors.array() });
-      return res.status(400).json({ 
-        success: false, 
-        message: 'Validation failed',
-        errors: errors.array() 
-      });
-    }
-    next();
-  }
+    .withMessage(`status must be a comma separated list of: ${DOWNLOAD_STATUSES.join(', ')}`),
+  query('playlistId')
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('playlistId must not be empty'),
+  query('url')
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('url must not be empty'),
+  query('cursor')
+    .optional()
+    .isString()
+    .custom((value: string) => decodeCursor(value) !== null)
+    .withMessage('cursor is invalid'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: MAX_STATUS_PAGE_SIZE })
+    .withMessage(`limit must be between 1 and ${MAX_STATUS_PAGE_SIZE}`)
+    .toInt(),
+  query('order')
+    .optional()
+    .isIn(['asc', 'desc'])
+    .withMessage('order must be asc or desc'),
+  query('compact')
+    .optional()
+    .isBoolean()
+    .withMessage('compact must be true or false')
+    .toBoolean(),
+  handleValidationErrors
 ];
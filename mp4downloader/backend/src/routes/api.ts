@@ -1,6 +1,6 @@
 import { Router, Request, Response } from 'express';
 import downloadController from '../controllers/downloadController';
-import { validateStartDownload } from '../middleware/validators';
+import { validateStartDownload, validateDownloadStatusQuery } from '../middleware/validators';
 
 export const apiRouter = Router();
 
@@ -15,7 +15,7 @@ apiRouter.post('/downloads/start', validateStartDownload, async (req: Request, r
 });
 
 // Get download status
-apiRouter.get('/downloads/status', async (req: Request, res: Response) => {
+apiRouter.get('/downloads/status', validateDownloadStatusQuery, async (req: Request, res: Response) => {
   try {
     await downloadController.getDownloadStatus(req, res);
   } catch (error) {
@@ -24,6 +24,18 @@ apiRouter.get('/downloads/status', async (req: Request, res: Response) => {
   }
 });
 
+// Stream job events (Server-Sent Events)
+apiRouter.get('/downloads/events', async (req: Request, res: Response) => {
+  try {
+    await downloadController.streamEvents(req, res);
+  } catch (error) {
+    console.error('Error in streamEvents:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
 // Download a file
 apiRouter.get('/downloads/file/:id', async (req: Request, res: Response) => {
   try {
@@ -35,3 +47,99 @@ apiRouter.get('/downloads/file/:id', async (req: Request, res: Response) => {
     }
   }
 });
+
+// Stream a file for playback (inline, supports seeking)
+apiRouter.get('/downloads/:id/stream', async (req: Request, res: Response) => {
+  try {
+    await downloadController.streamFile(req, res);
+  } catch (error) {
+    console.error('Error in streamFile:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// Read back the tags of a finished MP3, including its chapters
+apiRouter.get('/downloads/:id/tags', async (req: Request, res: Response) => {
+  try {
+    await downloadController.getTrackTags(req, res);
+  } catch (error) {
+    console.error('Error in getTrackTags:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Square cover art of a download
+apiRouter.get('/downloads/:id/cover', async (req: Request, res: Response) => {
+  try {
+    await downloadController.getCoverArt(req, res);
+  } catch (error) {
+    console.error('Error in getCoverArt:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// Retry a failed, interrupted or cancelled download under the same id
+apiRouter.post('/downloads/:id/retry', async (req: Request, res: Response) => {
+  try {
+    await downloadController.retryDownload(req, res);
+  } catch (error) {
+    console.error('Error in retryDownload:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Cancel a download
+apiRouter.delete('/downloads/:id', async (req: Request, res: Response) => {
+  try {
+    await downloadController.cancelDownload(req, res);
+  } catch (error) {
+    console.error('Error in cancelDownload:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Cancel every download of a playlist
+apiRouter.delete('/downloads/playlist/:playlistId', async (req: Request, res: Response) => {
+  try {
+    await downloadController.cancelPlaylist(req, res);
+  } catch (error) {
+    console.error('Error in cancelPlaylist:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// List playlists with their aggregate progress
+apiRouter.get('/playlists', async (req: Request, res: Response) => {
+  try {
+    await downloadController.getPlaylists(req, res);
+  } catch (error) {
+    console.error('Error in getPlaylists:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get a playlist with the state of each entry
+apiRouter.get('/playlists/:id', async (req: Request, res: Response) => {
+  try {
+    await downloadController.getPlaylist(req, res);
+  } catch (error) {
+    console.error('Error in getPlaylist:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Download the completed tracks of a playlist as one ZIP
+apiRouter.get('/playlists/:playlistId/archive', async (req: Request, res: Response) => {
+  try {
+    await downloadController.downloadPlaylistArchive(req, res);
+  } catch (error) {
+    console.error('Error in downloadPlaylistArchive:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
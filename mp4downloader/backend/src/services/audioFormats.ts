@@ -0,0 +1,150 @@
+export const AUDIO_FORMATS = ['mp3', 'm4a', 'aac', 'opus', 'ogg', 'flac', 'wav', 'original'] as const;
+export type AudioFormat = typeof AUDIO_FORMATS[number];
+
+export const DEFAULT_AUDIO_FORMAT: AudioFormat = 'mp3';
+
+/**
+ * How tags are written: ID3 with node-id3, container metadata with an
+ * ffmpeg remux, or not at all (raw ADTS streams have no place for tags)
+ */
+export type TagStrategy = 'id3' | 'ffmpeg' | 'none';
+
+export interface AudioFormatSpec {
+  /** Value for yt-dlp --audio-format */
+  ytDlpFormat: string;
+  /** Extension yt-dlp gives the converted file */
+  ytDlpExtension: string;
+  /** Extension of the file we keep */
+  extension: string;
+  mimeType: string;
+  /** Bitrate settings do not apply (nor do they in passthrough mode) */
+  lossless: boolean;
+  tagStrategy: TagStrategy;
+  /** yt-dlp can embed the thumbnail as cover art */
+  embedsThumbnail: boolean;
+  /**
+   * The source stream is only remuxed; the container (and so extension and
+   * MIME type) is whatever the source codec needs
+   */
+  passthrough: boolean;
+  /** ffmpeg encoder for re-encoding a file of this format; null when it cannot be */
+  ffmpegEncoder: string | null;
+}
+
+// Containers yt-dlp remuxes a native audio stream into
+export const PASSTHROUGH_EXTENSIONS = ['opus', 'm4a', 'ogg', 'webm', 'mka', 'mp3', 'aac', 'flac'];
+
+// Containers that only occur in passthrough mode
+const EXTRA_MIME_TYPES: Record<string, string> = {
+  webm: 'audio/webm',
+  mka: 'audio/x-matroska'
+};
+
+export const AUDIO_FORMAT_SPECS: Record<AudioFormat, AudioFormatSpec> = {
+  mp3: {
+    ytDlpFormat: 'mp3',
+    ytDlpExtension: 'mp3',
+    extension: 'mp3',
+    mimeType: 'audio/mpeg',
+    lossless: false,
+    tagStrategy: 'id3',
+    embedsThumbnail: true,
+    passthrough: false,
+    ffmpegEncoder: 'libmp3lame'
+  },
+  m4a: {
+    ytDlpFormat: 'm4a',
+    ytDlpExtension: 'm4a',
+    extension: 'm4a',
+    mimeType: 'audio/mp4',
+    lossless: false,
+    tagStrategy: 'ffmpeg',
+    embedsThumbnail: true,
+    passthrough: false,
+    ffmpegEncoder: 'aac'
+  },
+  // yt-dlp writes ADTS AAC under an .m4a name; it is renamed to what it is
+  aac: {
+    ytDlpFormat: 'aac',
+    ytDlpExtension: 'm4a',
+    extension: 'aac',
+    mimeType: 'audio/aac',
+    lossless: false,
+    tagStrategy: 'none',
+    embedsThumbnail: false,
+    passthrough: false,
+    ffmpegEncoder: 'aac'
+  },
+  opus: {
+    ytDlpFormat: 'opus',
+    ytDlpExtension: 'opus',
+    extension: 'opus',
+    mimeType: 'audio/ogg',
+    lossless: false,
+    tagStrategy: 'ffmpeg',
+    embedsThumbnail: true,
+    passthrough: false,
+    ffmpegEncoder: 'libopus'
+  },
+  ogg: {
+    ytDlpFormat: 'vorbis',
+    ytDlpExtension: 'ogg',
+    extension: 'ogg',
+    mimeType: 'audio/ogg',
+    lossless: false,
+    tagStrategy: 'ffmpeg',
+    embedsThumbnail: true,
+    passthrough: false,
+    ffmpegEncoder: 'libvorbis'
+  },
+  flac: {
+    ytDlpFormat: 'flac',
+    ytDlpExtension: 'flac',
+    extension: 'flac',
+    mimeType: 'audio/flac',
+    lossless: true,
+    tagStrategy: 'ffmpeg',
+    embedsThumbnail: true,
+    passthrough: false,
+    ffmpegEncoder: 'flac'
+  },
+  wav: {
+    ytDlpFormat: 'wav',
+    ytDlpExtension: 'wav',
+    extension: 'wav',
+    mimeType: 'audio/wav',
+    lossless: true,
+    tagStrategy: 'ffmpeg',
+    embedsThumbnail: false,
+    passthrough: false,
+    ffmpegEncoder: 'pcm_s16le'
+  },
+  // "best" makes yt-dlp copy the audio stream instead of re-encoding it
+  original: {
+    ytDlpFormat: 'best',
+    ytDlpExtension: '',
+    extension: '',
+    mimeType: 'application/octet-stream',
+    lossless: false,
+    tagStrategy: 'ffmpeg',
+    embedsThumbnail: true,
+    passthrough: true,
+    ffmpegEncoder: null
+  }
+};
+
+const getExtension = (filePath: string): string | undefined =>
+  filePath.split('.').pop()?.toLowerCase();
+
+/**
+ * Format of a file we produced, based on its extension
+ */
+export const getFormatSpecForFile = (filePath: string): AudioFormatSpec | undefined => {
+  const extension = getExtension(filePath);
+  return Object.values(AUDIO_FORMAT_SPECS).find(spec => !spec.passthrough && spec.extension === extension);
+};
+
+export const getMimeTypeForFile = (filePath: string): string => {
+  const extension = getExtension(filePath) || '';
+  return getFormatSpecForFile(filePath)?.mimeType || EXTRA_MIME_TYPES[extension] || 'application/octet-stream';
+};
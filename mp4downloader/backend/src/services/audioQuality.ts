@@ -0,0 +1,73 @@
+/**
+ * Encoder quality: a constant bitrate in kbps, or a LAME style VBR level
+ * where V0 is the best and V9 the smallest
+ */
+export type AudioQuality =
+  | { mode: 'cbr'; bitrate: number }
+  | { mode: 'vbr'; level: number };
+
+export const MIN_CBR_BITRATE = 96;
+export const MAX_CBR_BITRATE = 320;
+
+export const DEFAULT_AUDIO_QUALITY: AudioQuality = { mode: 'cbr', bitrate: 192 };
+
+const VBR_PATTERN = /^V(\d)$/i;
+
+/**
+ * Reads quality as the API accepts it: a bitrate in kbps (number or numeric
+ * string), "V0" to "V9", or the legacy 0 meaning best (V0). Returns null for
+ * anything else.
+ */
+export const parseAudioQuality = (value: unknown): AudioQuality | null => {
+  if (typeof value === 'string') {
+    const vbrMatch = VBR_PATTERN.exec(value.trim());
+    if (vbrMatch) {
+      return { mode: 'vbr', level: Number(vbrMatch[1]) };
+    }
+    if (value.trim() === '') {
+      return null;
+    }
+  }
+
+  if (typeof value !== 'number' && typeof value !== 'string') {
+    return null;
+  }
+
+  const bitrate = Number(value);
+  if (bitrate === 0) {
+    return { mode: 'vbr', level: 0 };
+  }
+  if (Number.isInteger(bitrate) && bitrate >= MIN_CBR_BITRATE && bitrate <= MAX_CBR_BITRATE) {
+    return { mode: 'cbr', bitrate };
+  }
+  return null;
+};
+
+/**
+ * Value for yt-dlp --audio-quality: bitrates need the K suffix, bare digits
+ * are VBR levels
+ */
+export const toYtDlpQuality = (quality: AudioQuality): string =>
+  quality.mode === 'cbr' ? `${quality.bitrate}K` : quality.level.toString();
+
+// Typical average bitrate of each LAME VBR level, V0 first
+const VBR_AVERAGE_BITRATES = [245, 225, 190, 175, 165, 130, 115, 100, 85, 65];
+
+/**
+ * ffmpeg arguments for re-encoding at a quality. Only LAME has VBR levels;
+ * other encoders get the level's typical bitrate.
+ */
+export const toFfmpegQualityArgs = (quality: AudioQuality, encoder: string): string[] => {
+  if (quality.mode === 'cbr') {
+    return ['-b:a', `${quality.bitrate}k`];
+  }
+  return encoder === 'libmp3lame'
+    ? ['-q:a', quality.level.toString()]
+    : ['-b:a', `${VBR_AVERAGE_BITRATES[quality.level]}k`];
+};
+
+/**
+ * Short form used in API responses, e.g. "192" or "V2"
+ */
+export const formatAudioQuality = (quality: AudioQuality): string =>
+  quality.mode === 'cbr' ? quality.bitrate.toString() : `V${quality.level}`;
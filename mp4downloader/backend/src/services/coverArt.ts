@@ -0,0 +1,165 @@
+import axios from 'axios';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { runFfmpeg } from './ffmpeg';
+import { logger } from '../utils/logger';
+
+export const MIN_COVER_SIZE = 64;
+export const MAX_COVER_SIZE = 3000;
+
+// Limits on fetching the source image; thumbnails are well below 1 MB
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15 * 1000;
+
+// Image URLs come from yt-dlp and provider responses, so they are fetched
+// here rather than by ffmpeg, which would also read local files, other
+// protocols and playlists. Plain http is only fetched from the given origins.
+const isAllowedImageUrl = (url: string, httpOrigins: string[]): boolean => {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' || (parsed.protocol === 'http:' && httpOrigins.includes(parsed.origin));
+  } catch {
+    return false;
+  }
+};
+
+const fetchImage = async (url: string, httpOrigins: string[]): Promise<Buffer> => {
+  if (!isAllowedImageUrl(url, httpOrigins)) {
+    throw new Error('Only https image URLs are fetched');
+  }
+
+  const response = await axios.get<ArrayBuffer>(url, {
+    responseType: 'arraybuffer',
+    timeout: FETCH_TIMEOUT_MS,
+    maxContentLength: MAX_IMAGE_BYTES,
+    maxRedirects: 5,
+    // Cover Art Archive redirects to its storage; never off https
+    beforeRedirect: (options: Record<string, unknown>) => {
+      if (!isAllowedImageUrl(String(options.href), httpOrigins)) {
+        throw new Error('Image URL redirected away from https');
+      }
+    }
+  });
+  return Buffer.from(response.data);
+};
+
+export interface CoverArtStoreOptions {
+  /** Where rendered covers are kept between jobs */
+  dir: string;
+  /** Width and height of the square covers, in pixels */
+  size: number;
+  /** Origins images may also be fetched from over plain http */
+  httpOrigins: string[];
+}
+
+/**
+ * Square front covers rendered from video thumbnails. Each video's cover is
+ * fetched and rendered once and then shared by every job of that video,
+ * e.g. the chapters of a split video or a retried download.
+ */
+export class CoverArtStore {
+  private options: CoverArtStoreOptions;
+  private inFlight: Map<string, Promise<string | null>>;
+
+  constructor(options: CoverArtStoreOptions) {
+    this.options = options;
+    this.inFlight = new Map();
+  }
+
+  /**
+   * Store in dir with the size from COVER_ART_SIZE (default 600). Images
+   * are fetched over http too from the metadata provider URLs that were
+   * set explicitly, e.g. to a local stand-in.
+   */
+  static fromEnv(dir: string): CoverArtStore {
+    const configured = Number(process.env.COVER_ART_SIZE);
+    const size = Number.isInteger(configured) && configured >= MIN_COVER_SIZE && configured <= MAX_COVER_SIZE
+      ? configured
+      : 600;
+    const httpOrigins = [
+      process.env.COVER_ART_ARCHIVE_URL,
+      process.env.MUSICBRAINZ_API_URL,
+      process.env.ITUNES_SEARCH_API_URL
+    ].flatMap(url => {
+      try {
+        return url ? [new URL(url).origin] : [];
+      } catch {
+        return [];
+      }
+    });
+    return new CoverArtStore({ dir, size, httpOrigins });
+  }
+
+  /**
+   * Path of the JPEG cover for a video or release, rendering it from
+   * imageUrl the first time. Returns null when the image cannot be fetched
+   * or decoded.
+   * @param key Canonical key of the video (see getCanonicalVideoKey), or
+   * the artwork key of a release
+   */
+  public get(key: string, imageUrl: string): Promise<string | null> {
+    const coverPath = this.getPath(key);
+    const pending = this.inFlight.get(coverPath);
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.render(imageUrl, coverPath)
+      .finally(() => {
+        this.inFlight.delete(coverPath);
+      });
+
+    this.inFlight.set(coverPath, request);
+    return request;
+  }
+
+  // Keys contain characters such as ":" and "/"; the size is part of the
+  // name so a new size is rendered afresh
+  private getPath = (key: string): string =>
+    path.join(this.options.dir, `${key.replace(/[^\w-]/g, '_')}-${this.options.size}.jpg`);
+
+  private render = async (imageUrl: string, coverPath: string): Promise<string | null> => {
+    if (await fs.pathExists(coverPath)) {
+      return coverPath;
+    }
+
+    await fs.ensureDir(this.options.dir);
+    const sourcePath = `${coverPath}.source`;
+    const tempPath = `${coverPath}.rendering.jpg`;
+    const size = this.options.size;
+
+    try {
+      await fs.writeFile(sourcePath, await fetchImage(imageUrl, this.options.httpOrigins));
+
+      // The image demuxer decodes JPEG, PNG and WebP alike and, unlike
+      // probing, cannot be talked into reading anything but the file. The
+      // center square drops the sides of 16:9 thumbnails (and with them any
+      // pillarbox bars).
+      await runFfmpeg([
+        '-y',
+        '-protocol_whitelist', 'file',
+        '-f', 'image2pipe',
+        '-i', sourcePath,
+        '-vf', `crop='min(iw,ih)':'min(iw,ih)',scale=${size}:${size}`,
+        '-frames:v', '1',
+        '-q:v', '2',
+        tempPath
+      ], 60 * 1000);
+      await fs.move(tempPath, coverPath, { overwrite: true });
+      return coverPath;
+    } catch (error) {
+      // Request errors hold their socket, which cannot be serialized
+      logger.warn(`Could not render cover art from ${imageUrl}:`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      await fs.remove(tempPath).catch(() => {
+        // Nothing to clean up
+      });
+      return null;
+    } finally {
+      await fs.remove(sourcePath).catch(() => {
+        // Nothing to clean up
+      });
+    }
+  };
+}
@@ -0,0 +1,146 @@
+import { logger } from '../utils/logger';
+
+export interface DownloadQueueOptions {
+  /** Maximum number of jobs running at once */
+  concurrency: number;
+  /** Maximum number of jobs running at once against the same source host */
+  perHostConcurrency: number;
+  /** Called whenever queue positions may have changed */
+  onChange?: () => void;
+}
+
+interface QueuedTask {
+  id: string;
+  host: string;
+  run: () => Promise<void>;
+}
+
+/**
+ * FIFO worker pool for download jobs. A job waits in the queue until both
+ * a global slot and a slot for its source host are free.
+ */
+export class DownloadQueue {
+  private options: DownloadQueueOptions;
+  private pending: QueuedTask[];
+  private running: Map<string, QueuedTask>;
+  private runningPerHost: Map<string, number>;
+
+  constructor(options: DownloadQueueOptions) {
+    this.options = {
+      ...options,
+      concurrency: Math.max(1, options.concurrency),
+      perHostConcurrency: Math.max(1, options.perHostConcurrency)
+    };
+    this.pending = [];
+    this.running = new Map();
+    this.runningPerHost = new Map();
+  }
+
+  /**
+   * Adds a job to the end of the queue
+   */
+  public enqueue(id: string, url: string, run: () => Promise<void>): void {
+    if (this.has(id)) {
+      logger.warn(`Download ${id} is already queued or running`);
+      return;
+    }
+
+    this.pending.push({ id, host: DownloadQueue.getHost(url), run });
+    this.drain();
+    this.options.onChange?.();
+  }
+
+  /**
+   * Removes a job that has not started yet
+   * @returns true if the job was waiting in the queue
+   */
+  public remove(id: string): boolean {
+    const index = this.pending.findIndex(task => task.id === id);
+    if (index === -1) {
+      return false;
+    }
+
+    this.pending.splice(index, 1);
+    this.options.onChange?.();
+    return true;
+  }
+
+  public has(id: string): boolean {
+    return this.running.has(id) || this.pending.some(task => task.id === id);
+  }
+
+  public isRunning(id: string): boolean {
+    return this.running.has(id);
+  }
+
+  /**
+   * 1-based position of a waiting job, or undefined if it is not waiting
+   */
+  public getPosition(id: string): number | undefined {
+    const index = this.pending.findIndex(task => task.id === id);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  /**
+   * 1-based positions of all waiting jobs, keyed by job id
+   */
+  public getPositions(): Record<string, number> {
+    return Object.fromEntries(this.pending.map((task, index) => [task.id, index + 1]));
+  }
+
+  public getStats(): { running: number; pending: number } {
+    return { running: this.running.size, pending: this.pending.length };
+  }
+
+  /**
+   * Starts as many waiting jobs as the limits allow, oldest first. A job
+   * whose host is saturated is skipped so other hosts are not blocked by it.
+   */
+  private drain(): void {
+    let index = 0;
+
+    while (this.running.size < this.options.concurrency && index < this.pending.length) {
+      const task = this.pending[index];
+
+      if ((this.runningPerHost.get(task.host) || 0) >= this.options.perHostConcurrency) {
+        index++;
+        continue;
+      }
+
+      this.pending.splice(index, 1);
+      this.start(task);
+    }
+  }
+
+  private start(task: QueuedTask): void {
+    this.running.set(task.id, task);
+    this.runningPerHost.set(task.host, (this.runningPerHost.get(task.host) || 0) + 1);
+
+    logger.debug(`Starting download ${task.id} (${this.running.size} running, ${this.pending.length} waiting)`);
+
+    Promise.resolve()
+      .then(task.run)
+      .catch(error => {
+        logger.error(`Queued download ${task.id} failed:`, error);
+      })
+      .finally(() => {
+        this.running.delete(task.id);
+        const hostCount = (this.runningPerHost.get(task.host) || 1) - 1;
+        if (hostCount > 0) {
+          this.runningPerHost.set(task.host, hostCount);
+        } else {
+          this.runningPerHost.delete(task.host);
+        }
+        this.drain();
+        this.options.onChange?.();
+      });
+  }
+
+  private static getHost(url: string): string {
+    try {
+      return new URL(url).hostname.replace(/^(www|m|music)\./, '');
+    } catch {
+      return 'unknown';
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { EventEmitter } from 'events';
+
+export interface BusEvent<T> {
+  id: number;
+  type: string;
+  data: T;
+}
+
+type Listener<T> = (event: BusEvent<T>) => void;
+
+interface HistoryEntry<T> {
+  event: BusEvent<T>;
+  replaceKey?: string;
+}
+
+/**
+ * In-process publish/subscribe with a bounded history, so clients that
+ * reconnect can replay what they missed.
+ */
+export class EventBus<T> {
+  private emitter: EventEmitter;
+  private history: HistoryEntry<T>[];
+  private historySize: number;
+  private nextId: number;
+  /** Every event from this id on is in the history or was replaced */
+  private firstRetainedId: number;
+
+  constructor(historySize = 1000) {
+    this.emitter = new EventEmitter();
+    // Every open SSE connection is a listener
+    this.emitter.setMaxListeners(0);
+    this.history = [];
+    this.historySize = historySize;
+    // Ids start at the boot time so ids handed out before a restart are
+    // always lower than ours and are detected as unknown instead of replayed
+    this.nextId = Date.now();
+    this.firstRetainedId = this.nextId;
+  }
+
+  /**
+   * @param replaceKey Events with the same key replace each other in the
+   * history, so only the latest is replayed, e.g. the progress of a job.
+   * Events without one are always kept until the history is full.
+   */
+  public publish(type: string, data: T, replaceKey?: string): BusEvent<T> {
+    const event: BusEvent<T> = { id: this.nextId++, type, data };
+
+    if (replaceKey) {
+      const replaced = this.history.findIndex(entry => entry.replaceKey === replaceKey);
+      if (replaced !== -1) {
+        this.history.splice(replaced, 1);
+      }
+    }
+
+    this.history.push({ event, replaceKey });
+    if (this.history.length > this.historySize) {
+      const dropped = this.history.shift() as HistoryEntry<T>;
+      this.firstRetainedId = dropped.event.id + 1;
+    }
+
+    this.emitter.emit('event', event);
+    return event;
+  }
+
+  /**
+   * @returns a function that removes the listener
+   */
+  public subscribe(listener: Listener<T>): () => void {
+    this.emitter.on('event', listener);
+    return () => {
+      this.emitter.off('event', listener);
+    };
+  }
+
+  /**
+   * Events published after lastId, or null if some of them are no longer
+   * in the history (or lastId was never issued by this process, e.g. NaN)
+   */
+  public getEventsSince(lastId: number): BusEvent<T>[] | null {
+    if (!Number.isInteger(lastId) || lastId >= this.nextId || lastId < this.firstRetainedId - 1) {
+      return null;
+    }
+
+    return this.history
+      .filter(entry => entry.event.id > lastId)
+      .map(entry => entry.event);
+  }
+}
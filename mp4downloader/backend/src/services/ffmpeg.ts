@@ -0,0 +1,68 @@
+import { killProcessTree, spawnKillable } from '../utils/processTree';
+import { logger } from '../utils/logger';
+
+// How much of ffmpeg's stderr is kept for error reporting
+const MAX_STDERR_LENGTH = 16 * 1024;
+
+export class FfmpegError extends Error {
+  public readonly exitCode: number | null;
+  public readonly stderr: string;
+
+  constructor(exitCode: number | null, stderr: string, message?: string) {
+    super(message || `ffmpeg exited with code ${exitCode}`);
+    this.name = 'FfmpegError';
+    this.exitCode = exitCode;
+    this.stderr = stderr;
+  }
+}
+
+export interface FfmpegResult {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Runs ffmpeg (or FFMPEG_PATH) with the given arguments, never through a
+ * shell. Rejects with FfmpegError on a non-zero exit or after timeoutMs.
+ */
+export const runFfmpeg = (args: string[], timeoutMs = 10 * 60 * 1000): Promise<FfmpegResult> => {
+  return new Promise((resolve, reject) => {
+    const child = spawnKillable(
+      process.env.FFMPEG_PATH || 'ffmpeg',
+      ['-hide_banner', '-nostdin', ...args]
+    );
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killProcessTree(child).catch(error => logger.error('Failed to stop ffmpeg:', error));
+    }, timeoutMs);
+
+    child.stdout?.on('data', (data: Buffer) => {
+      stdout += data.toString();
+    });
+
+    child.stderr?.on('data', (data: Buffer) => {
+      stderr = (stderr + data.toString()).slice(-MAX_STDERR_LENGTH);
+    });
+
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(new FfmpegError(null, error.message, `Could not start ffmpeg: ${error.message}`));
+    });
+
+    child.on('close', code => {
+      clearTimeout(timer);
+
+      if (timedOut) {
+        return reject(new FfmpegError(null, stderr, `ffmpeg timed out after ${timeoutMs} ms`));
+      }
+      if (code !== 0) {
+        return reject(new FfmpegError(code, stderr));
+      }
+      resolve({ stdout, stderr });
+    });
+  });
+};
@@ -0,0 +1,85 @@
+import axios, { AxiosInstance } from 'axios';
+import { MetadataProvider, TrackMatch, TrackQuery } from './metadataProviders';
+
+export interface ITunesSearchProviderOptions {
+  /** API root, e.g. https://itunes.apple.com */
+  apiUrl: string;
+  /** Two-letter code of the store to search */
+  country: string;
+  timeoutMs: number;
+}
+
+// The parts of a song in a /search response that are used
+interface ITunesSong {
+  artistName: string;
+  trackName: string;
+  collectionId?: number;
+  collectionName?: string;
+  releaseDate?: string;
+  primaryGenreName?: string;
+  trackNumber?: number;
+  trackCount?: number;
+  /** Milliseconds */
+  trackTimeMillis?: number;
+  artworkUrl100?: string;
+}
+
+/**
+ * Songs from the iTunes Search API
+ */
+export class ITunesSearchProvider implements MetadataProvider {
+  public readonly name = 'itunes' as const;
+  private options: ITunesSearchProviderOptions;
+  private http: AxiosInstance;
+
+  constructor(options: ITunesSearchProviderOptions) {
+    this.options = options;
+    this.http = axios.create({ baseURL: options.apiUrl, timeout: options.timeoutMs });
+  }
+
+  /**
+   * Provider configured from ITUNES_SEARCH_API_URL and ITUNES_COUNTRY
+   * (default US); the URL can point at a local stand-in for testing
+   */
+  static fromEnv(): ITunesSearchProvider {
+    return new ITunesSearchProvider({
+      apiUrl: process.env.ITUNES_SEARCH_API_URL || 'https://itunes.apple.com',
+      country: process.env.ITUNES_COUNTRY || 'US',
+      timeoutMs: Number(process.env.METADATA_LOOKUP_TIMEOUT_MS) || 10 * 1000
+    });
+  }
+
+  public async search(query: TrackQuery): Promise<TrackMatch[]> {
+    const response = await this.http.get<{ results?: ITunesSong[] }>('/search', {
+      params: {
+        term: `${query.artist} ${query.title}`,
+        media: 'music',
+        entity: 'song',
+        country: this.options.country,
+        limit: 10
+      }
+    });
+
+    return (response.data.results || []).map(this.toTrackMatch);
+  }
+
+  private toTrackMatch = (song: ITunesSong): TrackMatch => ({
+    provider: this.name,
+    artist: song.artistName,
+    title: song.trackName,
+    album: song.collectionName,
+    year: song.releaseDate ? song.releaseDate.substring(0, 4) : undefined,
+    genre: song.primaryGenreName,
+    trackNumber: song.trackNumber
+      ? (song.trackCount ? `${song.trackNumber}/${song.trackCount}` : String(song.trackNumber))
+      : undefined,
+    duration: song.trackTimeMillis ? Math.round(song.trackTimeMillis / 1000) : undefined,
+    // The URL names its size; larger sizes are rendered on request
+    artwork: song.artworkUrl100 && song.collectionId
+      ? {
+        key: `itunes:${song.collectionId}`,
+        url: song.artworkUrl100.replace(/\/\d+x\d+bb\./, '/1000x1000bb.')
+      }
+      : undefined
+  });
+}
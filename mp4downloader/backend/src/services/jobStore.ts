@@ -0,0 +1,45 @@
+import { DownloadInfo } from '../types/download';
+import { JsonJournalStore } from './jsonJournalStore';
+import { DEFAULT_AUDIO_QUALITY, parseAudioQuality } from './audioQuality';
+
+/**
+ * Durable storage for download jobs
+ */
+export interface JobRepository {
+  /** Loads every persisted job, keyed by id */
+  loadAll(): Map<string, DownloadInfo>;
+  /** Records the current state of a job */
+  save(job: DownloadInfo): void;
+  /** Removes a job from the store */
+  remove(id: string): void;
+}
+
+/**
+ * Jobs kept in an append-only JSON journal
+ */
+export class JsonJournalJobStore extends JsonJournalStore<DownloadInfo> implements JobRepository {
+  constructor(directory: string, fileName = 'jobs.journal.jsonl') {
+    super(directory, fileName);
+  }
+
+  protected revive(job: DownloadInfo): DownloadInfo {
+    return {
+      ...job,
+      lastUpdated: new Date(job.lastUpdated),
+      // Journals written before the quality model hold a bare bitrate
+      ...(typeof (job.quality as unknown) === 'number' && {
+        quality: parseAudioQuality(job.quality) ?? DEFAULT_AUDIO_QUALITY
+      }),
+      // Jobs saved before createdAt was recorded were created with their
+      // first status
+      createdAt: new Date(job.createdAt || job.statusHistory?.[0]?.at || job.lastUpdated),
+      ...(job.nextRetryAt && { nextRetryAt: new Date(job.nextRetryAt) }),
+      ...(job.statusHistory && {
+        statusHistory: job.statusHistory.map(transition => ({
+          ...transition,
+          at: new Date(transition.at)
+        }))
+      })
+    };
+  }
+}
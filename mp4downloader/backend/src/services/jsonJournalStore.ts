@@ -0,0 +1,114 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+
+type JournalEntry<T> =
+  | { op: 'put'; record: T }
+  | { op: 'delete'; id: string };
+
+// Rewrite the journal once it holds this many entries per live record
+const COMPACTION_RATIO = 20;
+const MIN_ENTRIES_BEFORE_COMPACTION = 1000;
+
+/**
+ * Append-only JSON journal: every save appends the full record as one line,
+ * and the file is compacted to one line per record on load and when it grows.
+ */
+export abstract class JsonJournalStore<T extends { id: string }> {
+  private journalPath: string;
+  private records: Map<string, T>;
+  private entriesSinceCompaction: number;
+
+  constructor(directory: string, fileName: string) {
+    fs.ensureDirSync(directory);
+    this.journalPath = path.join(directory, fileName);
+    this.records = new Map();
+    this.entriesSinceCompaction = 0;
+  }
+
+  /**
+   * Restores fields that JSON serialization changed, such as Dates
+   */
+  protected abstract revive(record: T): T;
+
+  public loadAll(): Map<string, T> {
+    this.records = new Map();
+
+    if (fs.existsSync(this.journalPath)) {
+      const lines = fs.readFileSync(this.journalPath, 'utf8').split('\n').filter(Boolean);
+
+      lines.forEach((line, index) => {
+        try {
+          this.apply(JSON.parse(line) as JournalEntry<T>);
+        } catch (error) {
+          // A crash mid-write can leave a truncated last line behind
+          logger.warn(`Skipping unreadable journal entry at ${this.journalPath}:${index + 1}`, {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      });
+    }
+
+    this.compact();
+    logger.info(`Loaded ${this.records.size} record(s) from ${this.journalPath}`);
+
+    return new Map(Array.from(this.records.entries()).map(([id, record]) => [id, this.clone(record)]));
+  }
+
+  public save(record: T): void {
+    const snapshot = this.clone(record);
+    this.records.set(record.id, snapshot);
+    this.append({ op: 'put', record: snapshot });
+  }
+
+  public remove(id: string): void {
+    if (this.records.delete(id)) {
+      this.append({ op: 'delete', id });
+    }
+  }
+
+  private apply(entry: JournalEntry<T>): void {
+    if (entry.op === 'put') {
+      this.records.set(entry.record.id, this.revive(entry.record));
+    } else if (entry.op === 'delete') {
+      this.records.delete(entry.id);
+    }
+  }
+
+  private append(entry: JournalEntry<T>): void {
+    try {
+      fs.appendFileSync(this.journalPath, `${JSON.stringify(entry)}\n`);
+      this.entriesSinceCompaction++;
+    } catch (error) {
+      logger.error(`Failed to append to journal ${this.journalPath}:`, error);
+      return;
+    }
+
+    const threshold = Math.max(MIN_ENTRIES_BEFORE_COMPACTION, this.records.size * COMPACTION_RATIO);
+    if (this.entriesSinceCompaction > threshold) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Rewrites the journal with a single entry per record
+   */
+  private compact(): void {
+    const tempPath = `${this.journalPath}.tmp`;
+    const content = Array.from(this.records.values())
+      .map(record => JSON.stringify({ op: 'put', record } as JournalEntry<T>))
+      .join('\n');
+
+    try {
+      fs.writeFileSync(tempPath, content ? `${content}\n` : '');
+      fs.renameSync(tempPath, this.journalPath);
+      this.entriesSinceCompaction = 0;
+    } catch (error) {
+      logger.error(`Failed to compact journal ${this.journalPath}:`, error);
+    }
+  }
+
+  private clone(record: T): T {
+    return this.revive(JSON.parse(JSON.stringify(record)));
+  }
+}
@@ -0,0 +1,192 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { runFfmpeg } from './ffmpeg';
+import { logger } from '../utils/logger';
+
+export const LOUDNESS_MODES = ['off', 'normalize', 'replaygain'] as const;
+/**
+ * 'normalize' re-encodes the audio to a target loudness, 'replaygain' only
+ * tags the file with the gain a player should apply
+ */
+export type LoudnessMode = typeof LOUDNESS_MODES[number];
+
+export const MIN_TARGET_LUFS = -70;
+export const MAX_TARGET_LUFS = -5;
+
+export interface LoudnessSettings {
+  mode: LoudnessMode;
+  /** Integrated loudness to normalize to, in LUFS */
+  targetLufs: number;
+}
+
+/**
+ * Target used when a request does not name one: LOUDNESS_TARGET_LUFS, or
+ * the -14 LUFS streaming services use
+ */
+export const getDefaultTargetLufs = (): number => {
+  const configured = Number(process.env.LOUDNESS_TARGET_LUFS);
+  return Number.isFinite(configured) && configured >= MIN_TARGET_LUFS && configured <= MAX_TARGET_LUFS
+    ? configured
+    : -14;
+};
+
+/** EBU R128 measurement of a file, as reported by ffmpeg's loudnorm */
+export interface LoudnessMeasurement {
+  /** Integrated loudness, LUFS */
+  integrated: number;
+  /** True peak, dBTP */
+  truePeak: number;
+  /** Loudness range, LU */
+  range: number;
+  /** Gating threshold, LUFS */
+  threshold: number;
+  /** Offset loudnorm suggests for its second pass, LU */
+  offset: number;
+}
+
+/** ReplayGain 2.0 values, relative to its -18 LUFS reference */
+export interface ReplayGain {
+  trackGain: number;
+  /** Linear, 1.0 is full scale */
+  trackPeak: number;
+  albumGain?: number;
+  albumPeak?: number;
+}
+
+const REPLAYGAIN_REFERENCE_LUFS = -18;
+
+// Limits loudnorm works towards besides the integrated target
+const TRUE_PEAK_LIMIT = -1.5;
+const LOUDNESS_RANGE_TARGET = 11;
+
+const loudnormFilter = (targetLufs: number): string =>
+  `loudnorm=I=${targetLufs}:TP=${TRUE_PEAK_LIMIT}:LRA=${LOUDNESS_RANGE_TARGET}`;
+
+/**
+ * loudnorm prints its statistics as the last JSON object on stderr
+ */
+const parseLoudnormOutput = (stderr: string): LoudnessMeasurement => {
+  const start = stderr.lastIndexOf('{');
+  const end = stderr.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('ffmpeg did not report loudness statistics');
+  }
+
+  const raw = JSON.parse(stderr.slice(start, end + 1)) as Record<string, string>;
+  const measurement = {
+    integrated: parseFloat(raw.input_i),
+    truePeak: parseFloat(raw.input_tp),
+    range: parseFloat(raw.input_lra),
+    threshold: parseFloat(raw.input_thresh),
+    offset: parseFloat(raw.target_offset)
+  };
+
+  // Silence measures as -inf, which cannot be normalized or gained
+  if (!Object.values(measurement).every(Number.isFinite)) {
+    throw new Error('Audio is too quiet to measure its loudness');
+  }
+  return measurement;
+};
+
+/**
+ * First loudnorm pass: measures the file without writing anything
+ */
+export const measureLoudness = async (filePath: string, targetLufs = REPLAYGAIN_REFERENCE_LUFS): Promise<LoudnessMeasurement> => {
+  const { stderr } = await runFfmpeg([
+    '-i', filePath,
+    '-map', '0:a:0',
+    '-af', `${loudnormFilter(targetLufs)}:print_format=json`,
+    '-f', 'null',
+    '-'
+  ]);
+  return parseLoudnormOutput(stderr);
+};
+
+export interface NormalizeOptions {
+  targetLufs: number;
+  /** ffmpeg arguments selecting the encoder and its quality */
+  encoderArgs: string[];
+  /** loudnorm works at 192 kHz internally, so the output rate must be set */
+  sampleRate: number;
+}
+
+/**
+ * Second loudnorm pass: re-encodes the file in place to the target loudness,
+ * using the first pass's measurement for a linear (undistorted) gain where
+ * possible. Cover art and tags are copied.
+ */
+export const normalizeLoudness = async (
+  filePath: string,
+  measurement: LoudnessMeasurement,
+  options: NormalizeOptions
+): Promise<void> => {
+  const extension = path.extname(filePath);
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `${path.basename(filePath, extension)}.normalizing${extension}`
+  );
+
+  const filter = [
+    loudnormFilter(options.targetLufs),
+    `measured_I=${measurement.integrated}`,
+    `measured_TP=${measurement.truePeak}`,
+    `measured_LRA=${measurement.range}`,
+    `measured_thresh=${measurement.threshold}`,
+    `offset=${measurement.offset}`,
+    'linear=true'
+  ].join(':');
+
+  try {
+    await runFfmpeg([
+      '-y',
+      '-i', filePath,
+      '-map', '0:a:0',
+      // Cover art is a video stream in most containers
+      '-map', '0:v?',
+      '-map_metadata', '0',
+      '-c:v', 'copy',
+      '-af', filter,
+      '-ar', options.sampleRate.toString(),
+      ...options.encoderArgs,
+      tempPath
+    ]);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => {
+      // Nothing to clean up
+    });
+    throw error;
+  }
+};
+
+/**
+ * Track gain and peak for a measured file
+ */
+export const toReplayGain = (measurement: LoudnessMeasurement): ReplayGain => ({
+  trackGain: REPLAYGAIN_REFERENCE_LUFS - measurement.integrated,
+  trackPeak: Math.pow(10, measurement.truePeak / 20)
+});
+
+/**
+ * Album gain and peak for tracks played together: the album's loudness is
+ * the duration-weighted energy average of the tracks' loudness
+ */
+export const toAlbumGain = (
+  tracks: Array<{ measurement: LoudnessMeasurement; duration: number }>
+): { albumGain: number; albumPeak: number } | null => {
+  const weighted = tracks.filter(track => track.duration > 0);
+  const totalDuration = weighted.reduce((sum, track) => sum + track.duration, 0);
+  if (weighted.length === 0 || totalDuration === 0) {
+    logger.warn('Cannot compute album gain without track durations');
+    return null;
+  }
+
+  const energy = weighted.reduce(
+    (sum, track) => sum + track.duration * Math.pow(10, track.measurement.integrated / 10),
+    0
+  );
+  const albumLoudness = 10 * Math.log10(energy / totalDuration);
+  const albumPeak = Math.max(...tracks.map(track => Math.pow(10, track.measurement.truePeak / 20)));
+
+  return { albumGain: REPLAYGAIN_REFERENCE_LUFS - albumLoudness, albumPeak };
+};
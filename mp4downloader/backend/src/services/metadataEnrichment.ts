@@ -0,0 +1,155 @@
+import { logger } from '../utils/logger';
+import { JsonJournalStore } from './jsonJournalStore';
+import { ITunesSearchProvider } from './iTunesSearch';
+import {
+  METADATA_PROVIDERS,
+  MetadataProvider,
+  MetadataProviderName,
+  ScoredTrackMatch,
+  TrackMatch,
+  TrackQuery,
+  scoreMatch
+} from './metadataProviders';
+import { MusicBrainzProvider } from './musicBrainz';
+
+export interface MetadataEnricherOptions {
+  /** Searched in order until one has a confident match */
+  providers: MetadataProvider[];
+  /** Matches scoring lower are not used, see scoreMatch */
+  minConfidence: number;
+  /** How long search results are reused */
+  cacheTtlMs: number;
+}
+
+interface CachedSearch {
+  /** Provider and normalized query */
+  id: string;
+  matches: TrackMatch[];
+  cachedAt: Date;
+}
+
+/**
+ * Search results kept in an append-only JSON journal
+ */
+class JsonJournalSearchCache extends JsonJournalStore<CachedSearch> {
+  constructor(directory: string) {
+    super(directory, 'metadata-lookups.journal.jsonl');
+  }
+
+  protected revive(search: CachedSearch): CachedSearch {
+    return {
+      ...search,
+      cachedAt: new Date(search.cachedAt)
+    };
+  }
+}
+
+const createProvider = (name: MetadataProviderName): MetadataProvider =>
+  name === 'musicbrainz' ? MusicBrainzProvider.fromEnv() : ITunesSearchProvider.fromEnv();
+
+/**
+ * Looks tracks up by their parsed artist and title to fill in what a video
+ * does not say: album, year, genre, track number and artwork. Search
+ * results are cached on disk, so a track is only searched for once, and
+ * scored again against each query.
+ */
+export class MetadataEnricher {
+  private options: MetadataEnricherOptions;
+  private cache: JsonJournalSearchCache;
+  private searches: Map<string, CachedSearch>;
+  private inFlight: Map<string, Promise<TrackMatch[]>>;
+
+  constructor(options: MetadataEnricherOptions, cacheDir: string) {
+    this.options = options;
+    this.cache = new JsonJournalSearchCache(cacheDir);
+    this.searches = this.cache.loadAll();
+    this.inFlight = new Map();
+  }
+
+  /**
+   * Enricher configured from METADATA_PROVIDERS, METADATA_MIN_CONFIDENCE
+   * (default 0.8) and METADATA_CACHE_TTL_MS (default 30 days). Lookups send
+   * the parsed artist and title to third parties, so they are off until
+   * METADATA_PROVIDERS lists providers, e.g. "musicbrainz,itunes".
+   */
+  static fromEnv(cacheDir: string): MetadataEnricher {
+    const names = (process.env.METADATA_PROVIDERS || '')
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(Boolean);
+    const unknown = names.filter(name => !(METADATA_PROVIDERS as readonly string[]).includes(name));
+    if (unknown.length > 0) {
+      logger.warn(`Ignoring unknown metadata providers: ${unknown.join(', ')}`);
+    }
+
+    const minConfidence = Number(process.env.METADATA_MIN_CONFIDENCE);
+    return new MetadataEnricher({
+      providers: METADATA_PROVIDERS
+        .filter(name => names.includes(name))
+        .sort((a, b) => names.indexOf(a) - names.indexOf(b))
+        .map(createProvider),
+      minConfidence: minConfidence > 0 && minConfidence <= 1 ? minConfidence : 0.8,
+      cacheTtlMs: Number(process.env.METADATA_CACHE_TTL_MS) || 30 * 24 * 60 * 60 * 1000
+    }, cacheDir);
+  }
+
+  /**
+   * Best match of the first provider with a confident one, or null. A
+   * provider that fails is logged and skipped.
+   */
+  public lookup = async (query: TrackQuery): Promise<ScoredTrackMatch | null> => {
+    for (const provider of this.options.providers) {
+      let matches: TrackMatch[];
+      try {
+        matches = await this.search(provider, query);
+      } catch (error) {
+        logger.warn(`Metadata lookup on ${provider.name} failed for "${query.artist} - ${query.title}":`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+        continue;
+      }
+
+      const best = matches
+        .map(match => ({ ...match, confidence: scoreMatch(query, match) }))
+        .sort((a, b) => b.confidence - a.confidence)[0];
+      if (best && best.confidence >= this.options.minConfidence) {
+        logger.info(`Matched "${query.artist} - ${query.title}" on ${provider.name} (confidence ${best.confidence.toFixed(2)})`);
+        return best;
+      }
+    }
+
+    return null;
+  };
+
+  // Cached by provider and query words, so "Artist - Song" and
+  // "artist - song!" share one search; failed searches are not cached
+  private search = (provider: MetadataProvider, query: TrackQuery): Promise<TrackMatch[]> => {
+    const key = [provider.name, query.artist, query.title]
+      .map(part => part.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim())
+      .join('|');
+
+    const cached = this.searches.get(key);
+    if (cached && cached.cachedAt.getTime() + this.options.cacheTtlMs > Date.now()) {
+      return Promise.resolve(cached.matches);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const request = provider.search(query)
+      .then(matches => {
+        const search = { id: key, matches, cachedAt: new Date() };
+        this.searches.set(key, search);
+        this.cache.save(search);
+        return matches;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, request);
+    return request;
+  };
+}
@@ -0,0 +1,113 @@
+export const METADATA_PROVIDERS = ['musicbrainz', 'itunes'] as const;
+export type MetadataProviderName = typeof METADATA_PROVIDERS[number];
+
+/** Track to look up, as parsed from the video title */
+export interface TrackQuery {
+  artist: string;
+  title: string;
+  /** Seconds */
+  duration?: number;
+}
+
+/** Release of a track as a metadata provider knows it */
+export interface TrackMatch {
+  provider: MetadataProviderName;
+  artist: string;
+  title: string;
+  album?: string;
+  year?: string;
+  genre?: string;
+  /** "3/12" */
+  trackNumber?: string;
+  /** Seconds */
+  duration?: number;
+  artwork?: {
+    /** Identifies the artwork across tracks, e.g. the release */
+    key: string;
+    url: string;
+  };
+}
+
+export interface ScoredTrackMatch extends TrackMatch {
+  /** 0 (unrelated) to 1 (same artist, title and length) */
+  confidence: number;
+}
+
+/**
+ * Source of release metadata searched by artist and title
+ */
+export interface MetadataProvider {
+  readonly name: MetadataProviderName;
+  /** Candidate tracks, best first as the provider ranks them */
+  search(query: TrackQuery): Promise<TrackMatch[]>;
+}
+
+// Durations this close count as the same recording; beyond the limit they
+// count against the match completely
+const DURATION_TOLERANCE_SECONDS = 3;
+const DURATION_LIMIT_SECONDS = 30;
+
+const normalize = (text: string): string[] =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .split(' ')
+    .filter(Boolean);
+
+// "Song (Remastered 2011)", "Song - Radio Edit" and "Artist feat. Guest"
+// without the part that providers and video titles disagree on most
+const stripExtras = (text: string): string =>
+  text
+    .replace(/\s*[([].*?[)\]]/g, '')
+    .replace(/\s+[-–—]\s+.*$/, '')
+    .replace(/\s+(?:feat\.?|ft\.?|featuring)\s+.*$/i, '');
+
+// Dice coefficient of the words of both texts
+const wordSimilarity = (a: string, b: string): number => {
+  const wordsA = normalize(a);
+  const wordsB = normalize(b);
+  if (wordsA.length === 0 || wordsB.length === 0) {
+    return 0;
+  }
+
+  const remaining = [...wordsB];
+  const shared = wordsA.filter(word => {
+    const index = remaining.indexOf(word);
+    if (index === -1) {
+      return false;
+    }
+    remaining.splice(index, 1);
+    return true;
+  }).length;
+  return (2 * shared) / (wordsA.length + wordsB.length);
+};
+
+// A remix or live version differs from the original by its extras only,
+// so those still cost a little
+const textSimilarity = (a: string, b: string): number =>
+  Math.max(wordSimilarity(a, b), 0.9 * wordSimilarity(stripExtras(a), stripExtras(b)));
+
+const durationSimilarity = (a: number, b: number): number => {
+  const difference = Math.abs(a - b);
+  if (difference <= DURATION_TOLERANCE_SECONDS) {
+    return 1;
+  }
+  return Math.max(0, 1 - (difference - DURATION_TOLERANCE_SECONDS) / (DURATION_LIMIT_SECONDS - DURATION_TOLERANCE_SECONDS));
+};
+
+/**
+ * How likely a candidate is the queried track, from the similarity of the
+ * title, the artist and, when both are known, the duration
+ */
+export const scoreMatch = (query: TrackQuery, candidate: TrackMatch): number => {
+  const title = textSimilarity(query.title, candidate.title);
+  const artist = textSimilarity(query.artist, candidate.artist);
+
+  if (!query.duration || !candidate.duration) {
+    return 0.55 * title + 0.45 * artist;
+  }
+  return 0.45 * title + 0.35 * artist + 0.2 * durationSimilarity(query.duration, candidate.duration);
+};
@@ -3,10 +3,143 @@ import * as fs from 'fs/promises';
 import * as fsSync from 'fs';
 import * as path from 'path';
 import { logger } from '../utils/logger';
+import { getFormatSpecForFile } from './audioFormats';
+import { runFfmpeg } from './ffmpeg';
+import { ReplayGain } from './loudness';
+import { AudioProperties } from '../types/download';
 import { IOptions, IAudioMetadata, ICommonTagsResult, IPicture } from 'music-metadata';
 
 // Import node-id3 types from our custom declaration file
 import 'node-id3';
+import NodeID3, { type Tags as NodeID3Tags } from 'node-id3';
+
+/** Chapter of a file, in seconds from its start */
+export interface ChapterMarker {
+  title: string;
+  startTime: number;
+  endTime: number;
+}
+
+/** Tags of a file as shown in the track details */
+export interface TrackTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  year?: string;
+  trackNumber?: string;
+  genre?: string;
+  chapters: ChapterMarker[];
+}
+
+/** Artist and track title read from a video title, see extractFromTitle */
+export interface ParsedTitle {
+  artist: string;
+  /** Track title, including the version if any, e.g. "Song (Club Mix)" */
+  title: string;
+  /** Artists credited with feat./ft., in order */
+  featuredArtists: string[];
+  /** Remix or version marker, e.g. "Skrillex Remix" or "Live at Wembley" */
+  version?: string;
+}
+
+// Hyphens (and the underscores of some labels) only separate with spaces
+// around them, as in Jay-Z or blink-182; en and em dashes also without
+const ARTIST_TITLE_SEPARATOR = /\s+[-‐–—―_]\s+|\s*[–—―]\s*/;
+
+const FEAT_PREFIX_PATTERN = /^(?:feat\.?|ft\.?|featuring|with)\s+(.+)$/i;
+const FEAT_INLINE_PATTERN = /\s+(?:feat\.?|ft\.?|featuring)\s+(.+)$/i;
+
+// Words that make a bracketed part a version of the track worth keeping
+const VERSION_PATTERN = /\b(?:re-?mix|mix|edit|version|ver\.|live|acoustic|unplugged|remaster(?:ed)?|instrumental|cover|extended|rework|bootleg|mashup|vip|sped up|slowed|reverb|demo|radio)\b/i;
+
+// Bracketed parts that only describe the upload
+const NOISE_PATTERN = /\b(?:official|video|audio|lyrics?|letra|visuali[sz]er|m\/?v|hd|hq|[48]k|\d{3,4}p|\d+\s?fps|explicit|clean|full song|full album|high quality|out now|premiere|color coded|clip officiel)\b/i;
+
+// The same noise without brackets at the end of the title
+const TRAILING_NOISE_PATTERN = /\s+(?:[-–—]\s+)?(?:official\s+)?(?:(?:music|lyric)\s+)?(?:video|audio|lyrics|m\/?v)$/i;
+
+const splitArtists = (text: string): string[] =>
+  text.split(/\s*,\s*|\s+(?:&|x|and)\s+/i).map(name => name.trim()).filter(Boolean);
+
+// "Official Remix Video" -> "Remix"
+const cleanVersion = (text: string): string =>
+  text.replace(/\b(?:official|music video|video|audio)\b/gi, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Artist name behind a channel: "Queen - Topic" -> "Queen",
+ * "EdSheeranVEVO" -> "Ed Sheeran"
+ */
+const cleanChannelName = (uploader?: string): string | undefined => {
+  if (!uploader) {
+    return undefined;
+  }
+
+  const vevo = /^(.+?)\s*vevo$/i.exec(uploader.trim());
+  const name = vevo
+    // VEVO channel names run the words together
+    ? vevo[1].replace(/([a-z])([A-Z])/g, '$1 $2')
+    : uploader.replace(/\s+-\s+Topic$/i, '').replace(/\s+Official$/i, '');
+  return name.trim() || undefined;
+};
+
+/**
+ * How a container holds a front cover: as an attached picture stream, as a
+ * Vorbis comment or as a Matroska attachment. MP3 covers are ID3 frames;
+ * WAV, WebM and raw AAC have no place for one.
+ */
+type CoverEmbedding = 'stream' | 'vorbis' | 'attachment';
+
+const COVER_EMBEDDINGS: Record<string, CoverEmbedding> = {
+  '.m4a': 'stream',
+  '.flac': 'stream',
+  '.opus': 'vorbis',
+  '.ogg': 'vorbis',
+  '.mka': 'attachment'
+};
+
+// Width and height from a PNG's IHDR chunk or a JPEG's frame header;
+// zero when neither is found
+const getImageSize = (data: Buffer): { width: number; height: number } => {
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  let offset = 2;
+  while (offset + 9 < data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    // Start of frame markers; C4, C8 and CC are other segments
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return { width: 0, height: 0 };
+};
+
+// FLAC picture block of a front cover, which Vorbis comments carry base64
+// encoded as METADATA_BLOCK_PICTURE
+const toPictureBlock = (cover: { data: Buffer; mimeType: string }): Buffer => {
+  const mimeType = Buffer.from(cover.mimeType, 'ascii');
+  const { width, height } = getImageSize(cover.data);
+  const header = Buffer.alloc(32 + mimeType.length);
+
+  let offset = header.writeUInt32BE(3, 0); // Front cover
+  offset = header.writeUInt32BE(mimeType.length, offset);
+  offset += mimeType.copy(header, offset);
+  offset = header.writeUInt32BE(0, offset); // No description
+  offset = header.writeUInt32BE(width, offset);
+  offset = header.writeUInt32BE(height, offset);
+  offset = header.writeUInt32BE(24, offset); // Color depth
+  offset = header.writeUInt32BE(0, offset); // Not indexed
+  header.writeUInt32BE(cover.data.length, offset);
+  return Buffer.concat([header, cover.data]);
+};
+
+// ffmpeg metadata file; values escape "=", ";", "#", "\" and line breaks
+const toFfMetadata = (tags: Record<string, string>): string =>
+  `;FFMETADATA1\n${Object.entries(tags)
+    .map(([key, value]) => `${key}=${value.replace(/[=;#\\\n]/g, '\\$&')}`)
+    .join('\n')}\n`;
 
 interface Metadata {
   title?: string;
@@ -16,52 +149,304 @@ interface Metadata {
   trackNumber?: string;
   genre?: string;
   comment?: string;
+  /** Front cover; replaces the embedded one in MP3, M4A and FLAC files */
   imageBuffer?: Buffer;
   mimeType?: string;
   duration?: number;
+  /** Written as ID3 CHAP frames with a CTOC table; ignored for other containers */
+  chapters?: ChapterMarker[];
 }
 
 export class MetadataService {
   /**
-   * Extracts metadata from YouTube video title
-   * @param videoTitle YouTube video title (e.g., "Artist - Title (Official Video)")
-   * @returns Object with extracted artist and title
+   * Splits a video title into artist and track title, e.g. "Queen -
+   * Bohemian Rhapsody (Official Video)" or, on a "Queen - Topic" channel,
+   * just "Bohemian Rhapsody". Featured artists and version markers such as
+   * "(Skrillex Remix)" are separated out; promotional noise like
+   * "[Official Video]", "(Lyrics)" or "| 4K" is dropped. Without an artist in
+   * the title, the channel name (minus "VEVO" and " - Topic") is used.
+   * @param videoTitle YouTube video title
+   * @param uploader Channel that uploaded the video
    */
-  static extractFromTitle(videoTitle: string): { artist: string; title: string } {
-    // Common patterns for YouTube video titles
-    const patterns = [
-      // Artist - Title (Official Video)
-      /^(?<artist>[^-]+?)\s*-\s*(?<title>[^(]+?)(?:\s*\([^)]*\))*\s*$/,
-      // Artist "Title" (Official Video)
-      /^(?<artist>[^"]+?)\s*"(?<title>[^"]+)"(?:\s*\([^)]*\))*\s*$/,
-      // [Official Video] Artist - Title
-      /^(?:\[.*?\]\s*)?(?<artist>[^-]+?)\s*-\s*(?<title>.+?)(?:\s*\([^)]*\))*\s*$/,
-    ];
-
-    // Try each pattern until we find a match
-    for (const pattern of patterns) {
-      const match = videoTitle.match(pattern);
-      if (match?.groups) {
-        return {
-          artist: match.groups.artist.trim(),
-          title: match.groups.title.trim(),
-        };
+  static extractFromTitle(videoTitle: string, uploader?: string): ParsedTitle {
+    const featuredArtists: string[] = [];
+    const versions: string[] = [];
+
+    // Whatever follows "|" or "//" is channel or promo text
+    let text = videoTitle.split(/\s*[|｜]\s*|\s+\/\/\s+/)[0];
+
+    text = text.replace(/\s*[([【]([^)\]】]*)[)\]】]/g, (match: string, inner: string) => {
+      const content = inner.trim();
+      const feat = FEAT_PREFIX_PATTERN.exec(content);
+      if (feat) {
+        featuredArtists.push(...splitArtists(feat[1]));
+        return '';
+      }
+      if (VERSION_PATTERN.test(content)) {
+        versions.push(cleanVersion(content));
+        return '';
+      }
+      return !content || NOISE_PATTERN.test(content) ? '' : match;
+    });
+    text = text.replace(TRAILING_NOISE_PATTERN, '').replace(/\s+/g, ' ').trim();
+
+    // Topic channels are auto-generated from releases: the title is only
+    // the track, and may well contain a dash itself
+    const isTopicChannel = /\s-\sTopic$/i.test(uploader || '');
+    let artist: string | undefined;
+    let title = text;
+
+    if (!isTopicChannel) {
+      const separator = ARTIST_TITLE_SEPARATOR.exec(text);
+      const quoted = /^(.+?)\s+["“](.+)["”]$/.exec(text);
+      if (separator) {
+        artist = text.slice(0, separator.index);
+        title = text.slice(separator.index + separator[0].length);
+      } else if (quoted) {
+        [, artist, title] = quoted;
       }
     }
 
-    // If no pattern matched, return the whole title as the title
+    // "Song - Radio Edit", "Song - Remastered 2011"
+    const dashedVersion = /\s+[-–—]\s+([^-–—]+)$/.exec(title);
+    if (dashedVersion && VERSION_PATTERN.test(dashedVersion[1])) {
+      versions.push(cleanVersion(dashedVersion[1]));
+      title = title.slice(0, dashedVersion.index);
+    }
+
+    // Unbracketed "A ft. B - Song" or "Song feat. B"
+    const takeFeatured = (part: string): string => {
+      const feat = FEAT_INLINE_PATTERN.exec(part);
+      if (!feat) {
+        return part;
+      }
+      featuredArtists.push(...splitArtists(feat[1]));
+      return part.slice(0, feat.index);
+    };
+    artist = artist && takeFeatured(artist).trim();
+    title = takeFeatured(title).replace(/^["“'‘](.+)["”'’]$/, '$1').trim();
+
+    const version = versions.length > 0 ? versions.join(', ') : undefined;
+    const baseTitle = title || videoTitle.trim();
     return {
-      artist: 'Unknown Artist',
-      title: videoTitle.trim(),
+      artist: artist || cleanChannelName(uploader) || 'Unknown Artist',
+      title: version ? `${baseTitle} (${version})` : baseTitle,
+      featuredArtists: Array.from(new Set(featuredArtists)),
+      version
     };
   }
 
+  /**
+   * Codec, container and bitrate of an audio file, as measured from the file
+   * @param filePath Path to the audio file
+   */
+  static async probeAudio(filePath: string): Promise<AudioProperties | null> {
+    try {
+      const { format } = await mm.parseFile(filePath, { skipCovers: true });
+      return {
+        codec: format.codec,
+        container: format.container,
+        bitrate: format.bitrate ? Math.round(format.bitrate / 1000) : undefined,
+        sampleRate: format.sampleRate,
+        lossless: format.lossless
+      };
+    } catch (error) {
+      logger.warn(`Could not probe audio properties of ${path.basename(filePath)}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Writes tags in the way the file's container supports: ID3 for MP3,
+   * container metadata (MP4 atoms, Vorbis comments, RIFF INFO) otherwise
+   * @param filePath Path to the audio file
+   * @param metadata Metadata to write
+   */
+  static async writeTags(filePath: string, metadata: Metadata): Promise<boolean> {
+    // Unknown extensions come from passthrough downloads (e.g. WebM), which
+    // ffmpeg can tag but node-id3 would corrupt
+    const tagStrategy = getFormatSpecForFile(filePath)?.tagStrategy ?? 'ffmpeg';
+
+    if (tagStrategy === 'none') {
+      logger.info(`[MetadataService] ${path.basename(filePath)} has no tag support, skipping`);
+      return false;
+    }
+
+    return tagStrategy === 'ffmpeg'
+      ? MetadataService.writeContainerTags(filePath, metadata)
+      : MetadataService.writeId3Tags(filePath, metadata);
+  }
+
+  /**
+   * Rewrites the container's metadata with ffmpeg. Streams (including
+   * embedded cover art) are copied, not re-encoded.
+   * @param filePath Path to an M4A, Opus, Ogg, FLAC or WAV file
+   * @param metadata Metadata to write
+   */
+  private static async writeContainerTags(filePath: string, metadata: Metadata): Promise<boolean> {
+    logger.info(`[MetadataService] Writing container tags to ${path.basename(filePath)}`, {
+      title: metadata.title,
+      artist: metadata.artist,
+      album: metadata.album
+    });
+
+    let cover: { data: Buffer; mimeType: string } | undefined;
+    if (metadata.imageBuffer && metadata.mimeType) {
+      if (MetadataService.canEmbedCover(filePath)) {
+        cover = { data: metadata.imageBuffer, mimeType: metadata.mimeType };
+      } else {
+        logger.info(`[MetadataService] ${path.basename(filePath)} cannot hold a cover, skipping it`);
+      }
+    }
+
+    return MetadataService.remuxWithTags(filePath, {
+      title: metadata.title,
+      artist: metadata.artist,
+      album: metadata.album,
+      date: metadata.year,
+      track: metadata.trackNumber,
+      genre: metadata.genre,
+      comment: metadata.comment
+    }, cover);
+  }
+
+  /**
+   * Whether writeTags embeds the cover it is given in this file
+   * @param filePath Path to the audio file
+   */
+  static canEmbedCover(filePath: string): boolean {
+    const extension = path.extname(filePath).toLowerCase();
+    return extension === '.mp3' || extension in COVER_EMBEDDINGS;
+  }
+
+  /**
+   * Adds ReplayGain tags without touching the audio or the other tags: ID3
+   * TXXX frames for MP3, container metadata otherwise
+   * @param filePath Path to the audio file
+   * @param gain Track gain and peak, plus album values once known
+   */
+  static async writeReplayGain(filePath: string, gain: ReplayGain): Promise<boolean> {
+    const tagStrategy = getFormatSpecForFile(filePath)?.tagStrategy ?? 'ffmpeg';
+    if (tagStrategy === 'none') {
+      logger.info(`[MetadataService] ${path.basename(filePath)} has no tag support, skipping ReplayGain`);
+      return false;
+    }
+
+    const values: Record<string, string | undefined> = {
+      REPLAYGAIN_TRACK_GAIN: `${gain.trackGain.toFixed(2)} dB`,
+      REPLAYGAIN_TRACK_PEAK: gain.trackPeak.toFixed(6),
+      REPLAYGAIN_ALBUM_GAIN: gain.albumGain !== undefined ? `${gain.albumGain.toFixed(2)} dB` : undefined,
+      REPLAYGAIN_ALBUM_PEAK: gain.albumPeak !== undefined ? gain.albumPeak.toFixed(6) : undefined
+    };
+
+    if (tagStrategy === 'ffmpeg') {
+      return MetadataService.remuxWithTags(filePath, values);
+    }
+
+    try {
+      // update() replaces TXXX frames with the same description and keeps the rest
+      const result = NodeID3.update({
+        userDefinedText: Object.entries(values)
+          .filter((entry): entry is [string, string] => entry[1] !== undefined)
+          .map(([description, value]) => ({ description, value }))
+      }, filePath);
+
+      if (result instanceof Error) {
+        throw result;
+      }
+      return true;
+    } catch (error) {
+      logger.error(`[MetadataService] Failed to write ReplayGain to ${path.basename(filePath)}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Rewrites the container's metadata with ffmpeg, setting the given keys
+   * and keeping all others. Streams are copied, not re-encoded; a cover
+   * replaces the embedded picture.
+   */
+  private static async remuxWithTags(
+    filePath: string,
+    tags: Record<string, string | undefined>,
+    cover?: { data: Buffer; mimeType: string }
+  ): Promise<boolean> {
+    const extension = path.extname(filePath);
+    // Keep the extension so ffmpeg picks the same muxer
+    const tempPath = path.join(
+      path.dirname(filePath),
+      `${path.basename(filePath, extension)}.tagging${extension}`
+    );
+
+    const metadataArgs = Object.entries(tags)
+      .filter(([, value]) => value)
+      .flatMap(([key, value]) => ['-metadata', `${key}=${value}`]);
+
+    // ffmpeg reads the cover from a file of its own. A Vorbis comment
+    // picture comes from a metadata file: base64 encoded, it could be too
+    // long for the command line.
+    const embedding = cover && COVER_EMBEDDINGS[extension.toLowerCase()];
+    const coverExtension = cover?.mimeType === 'image/png' ? 'png' : 'jpg';
+    const coverPath = embedding && path.join(
+      path.dirname(filePath),
+      `${path.basename(filePath, extension)}.cover.${embedding === 'vorbis' ? 'txt' : coverExtension}`
+    );
+
+    let coverArgs = ['-map', '0'];
+    if (cover && coverPath) {
+      if (embedding === 'vorbis') {
+        coverArgs = ['-f', 'ffmetadata', '-i', coverPath, '-map', '0:a', '-map_metadata:s:a:0', '1'];
+      } else if (embedding === 'attachment') {
+        coverArgs = [
+          '-map', '0', '-map', '-0:t',
+          '-attach', coverPath,
+          '-metadata:s:t', `mimetype=${cover.mimeType}`,
+          '-metadata:s:t', `filename=cover.${coverExtension}`
+        ];
+      } else {
+        coverArgs = ['-i', coverPath, '-map', '0:a', '-map', '1:v', '-disposition:v:0', 'attached_pic'];
+      }
+    }
+
+    try {
+      if (cover && coverPath) {
+        await fs.writeFile(coverPath, embedding === 'vorbis'
+          ? toFfMetadata({ METADATA_BLOCK_PICTURE: toPictureBlock(cover).toString('base64') })
+          : cover.data);
+      }
+
+      await runFfmpeg([
+        '-y',
+        '-i', filePath,
+        ...coverArgs,
+        '-map_metadata', '0',
+        '-c', 'copy',
+        ...metadataArgs,
+        tempPath
+      ]);
+      await fs.rename(tempPath, filePath);
+      return true;
+    } catch (error) {
+      logger.error(`[MetadataService] Failed to write container tags to ${path.basename(filePath)}:`, error);
+      await fs.unlink(tempPath).catch(() => {
+        // Nothing to clean up
+      });
+      return false;
+    } finally {
+      if (coverPath) {
+        await fs.unlink(coverPath).catch(() => {
+          // Never written
+        });
+      }
+    }
+  }
+
   /**
    * Writes ID3 tags to an MP3 file using music-metadata
    * @param filePath Path to the MP3 file
    * @param metadata Metadata to write
    */
-  static async writeTags(filePath: string, metadata: Metadata): Promise<boolean> {
+  private static async writeId3Tags(filePath: string, metadata: Metadata): Promise<boolean> {
     try {
       logger.info(`[MetadataService] Starting to write tags to: ${filePath}`);
       logger.info(`[MetadataService] Metadata to write:`, {
@@ -180,14 +565,32 @@ export class MetadataService {
           artist: commonTags.artist,
           album: commonTags.album,
           year: commonTags.year?.toString(),
-          trackNumber: commonTags.track?.no?.toString(),
+          // Keeps a "3/12" style total, which TRCK allows
+          trackNumber: metadata.trackNumber || commonTags.track?.no?.toString(),
           genre: Array.isArray(commonTags.genre) ? commonTags.genre[0] : commonTags.genre,
+          ...(metadata.duration && { length: Math.round(metadata.duration * 1000).toString() }),
           comment: {
             language: 'eng',
             text: commentText
           }
         };
         
+        // Chapters replace any the file already had
+        if (metadata.chapters?.length) {
+          const chapterFrames = metadata.chapters.map((chapter, index) => ({
+            elementID: `chp${index}`,
+            startTimeMs: Math.round(chapter.startTime * 1000),
+            endTimeMs: Math.round(chapter.endTime * 1000),
+            tags: { title: chapter.title }
+          }));
+          tags.chapter = chapterFrames;
+          tags.tableOfContents = [{
+            elementID: 'toc',
+            isOrdered: true,
+            elements: chapterFrames.map(frame => frame.elementID)
+          }];
+        }
+        
         // Add image if available
         if (picture?.[0]?.data) {
           tags.image = {
@@ -277,9 +680,9 @@ export class MetadataService {
   /**
    * Extracts metadata from a file
    * @param filePath Path to the MP3 file
-   * @returns Extracted metadata
+   * @returns Extracted metadata, with chapters in playback order
    */
-  static readTags(filePath: string): any {
+  static readTags(filePath: string): TrackTags | null {
     try {
       // Check if file exists using fsSync.existsSync
       if (!fsSync.existsSync(filePath)) {
@@ -289,13 +692,41 @@ export class MetadataService {
       // Use node-id3 to read tags
       // eslint-disable-next-line @typescript-eslint/no-var-requires
       const NodeID3 = require('node-id3');
-      const tags = NodeID3.read(filePath);
-      return tags;
+      const tags: NodeID3Tags = NodeID3.read(filePath);
+      return {
+        title: tags.title,
+        artist: tags.artist,
+        album: tags.album,
+        year: tags.year,
+        trackNumber: tags.trackNumber,
+        genre: Array.isArray(tags.genre) ? tags.genre[0] : tags.genre,
+        chapters: MetadataService.toChapterMarkers(tags)
+      };
     } catch (error) {
       logger.error(`Error reading tags from ${path.basename(filePath)}:`, error);
       return null;
     }
   }
+
+  /**
+   * Chapters in the order of the top-level CTOC frame, or by start time
+   * when the file has no table of contents
+   */
+  private static toChapterMarkers(tags: NodeID3Tags): ChapterMarker[] {
+    const frames = tags.chapter || [];
+    const order = tags.tableOfContents?.[0]?.elements;
+    const ordered = order?.length
+      ? order
+        .map(elementID => frames.find(frame => frame.elementID === elementID))
+        .filter((frame): frame is NonNullable<typeof frame> => !!frame)
+      : [...frames].sort((a, b) => a.startTimeMs - b.startTimeMs);
+
+    return ordered.map((frame, index) => ({
+      title: frame.tags?.title || `Chapter ${index + 1}`,
+      startTime: frame.startTimeMs / 1000,
+      endTime: frame.endTimeMs / 1000
+    }));
+  }
 }
 
 export default MetadataService;
@@ -0,0 +1,147 @@
+import axios, { AxiosInstance } from 'axios';
+import { MetadataProvider, TrackMatch, TrackQuery } from './metadataProviders';
+
+export interface MusicBrainzProviderOptions {
+  /** Web service root, e.g. https://musicbrainz.org/ws/2 */
+  apiUrl: string;
+  /** Cover Art Archive root, e.g. https://coverartarchive.org */
+  coverArtUrl: string;
+  /** MusicBrainz blocks clients that do not identify themselves */
+  userAgent: string;
+  timeoutMs: number;
+  /** MusicBrainz allows one request per second and client */
+  minIntervalMs: number;
+}
+
+// The parts of a /recording search response that are used
+interface MusicBrainzRelease {
+  id: string;
+  title: string;
+  status?: string;
+  date?: string;
+  'release-group'?: {
+    'primary-type'?: string;
+    'secondary-types'?: string[];
+  };
+  media?: Array<{
+    'track-count'?: number;
+    track?: Array<{ number?: string }>;
+  }>;
+}
+
+interface MusicBrainzRecording {
+  title: string;
+  /** Milliseconds */
+  length?: number;
+  'first-release-date'?: string;
+  'artist-credit'?: Array<{ name: string; joinphrase?: string }>;
+  releases?: MusicBrainzRelease[];
+  tags?: Array<{ name: string; count: number }>;
+}
+
+// Lucene phrase queries only need quotes and backslashes escaped
+const toPhrase = (text: string): string => `"${text.replace(/["\\]/g, '\\$&')}"`;
+
+// Official studio albums first, then singles and EPs, then compilations
+// and anything else; the earliest release of each kind wins
+const releaseRank = (release: MusicBrainzRelease): number => {
+  const group = release['release-group'];
+  const type = group?.['primary-type'];
+  return (release.status === 'Official' ? 0 : 4)
+    + (group?.['secondary-types']?.length ? 2 : 0)
+    + (type === 'Album' ? 0 : type === 'Single' || type === 'EP' ? 1 : 2);
+};
+
+const pickRelease = (releases: MusicBrainzRelease[]): MusicBrainzRelease | undefined =>
+  [...releases].sort((a, b) =>
+    releaseRank(a) - releaseRank(b) || (a.date || '9999').localeCompare(b.date || '9999'))[0];
+
+/**
+ * Recordings from the MusicBrainz search API, with artwork from the Cover
+ * Art Archive
+ */
+export class MusicBrainzProvider implements MetadataProvider {
+  public readonly name = 'musicbrainz' as const;
+  private options: MusicBrainzProviderOptions;
+  private http: AxiosInstance;
+  private nextRequestAt: number;
+
+  constructor(options: MusicBrainzProviderOptions) {
+    this.options = options;
+    this.http = axios.create({
+      baseURL: options.apiUrl,
+      timeout: options.timeoutMs,
+      headers: { 'User-Agent': options.userAgent, Accept: 'application/json' }
+    });
+    this.nextRequestAt = 0;
+  }
+
+  /**
+   * Provider configured from MUSICBRAINZ_API_URL, COVER_ART_ARCHIVE_URL and
+   * MUSICBRAINZ_USER_AGENT; the URLs can point at a local stand-in for testing
+   */
+  static fromEnv(): MusicBrainzProvider {
+    return new MusicBrainzProvider({
+      apiUrl: process.env.MUSICBRAINZ_API_URL || 'https://musicbrainz.org/ws/2',
+      coverArtUrl: process.env.COVER_ART_ARCHIVE_URL || 'https://coverartarchive.org',
+      userAgent: process.env.MUSICBRAINZ_USER_AGENT || 'mp4downloader/0.8.0',
+      timeoutMs: Number(process.env.METADATA_LOOKUP_TIMEOUT_MS) || 10 * 1000,
+      minIntervalMs: 1000
+    });
+  }
+
+  public async search(query: TrackQuery): Promise<TrackMatch[]> {
+    await this.waitForTurn();
+    const response = await this.http.get<{ recordings?: MusicBrainzRecording[] }>('/recording', {
+      params: {
+        query: `recording:${toPhrase(query.title)} AND artist:${toPhrase(query.artist)}`,
+        fmt: 'json',
+        limit: 10
+      }
+    });
+
+    return (response.data.recordings || []).map(this.toTrackMatch);
+  }
+
+  private toTrackMatch = (recording: MusicBrainzRecording): TrackMatch => {
+    const release = pickRelease(recording.releases || []);
+    const medium = release?.media?.[0];
+    const trackNumber = medium?.track?.[0]?.number;
+    const genre = [...(recording.tags || [])].sort((a, b) => b.count - a.count)[0]?.name;
+    const date = recording['first-release-date'] || release?.date;
+
+    return {
+      provider: this.name,
+      artist: (recording['artist-credit'] || [])
+        .map(credit => `${credit.name}${credit.joinphrase || ''}`)
+        .join('')
+        .trim(),
+      title: recording.title,
+      album: release?.title,
+      year: date ? date.substring(0, 4) : undefined,
+      // Tags are lower case, "rock" rather than "Rock"
+      genre: genre ? genre.replace(/\b\w/g, letter => letter.toUpperCase()) : undefined,
+      trackNumber: trackNumber
+        ? (medium?.['track-count'] ? `${trackNumber}/${medium['track-count']}` : trackNumber)
+        : undefined,
+      duration: recording.length ? Math.round(recording.length / 1000) : undefined,
+      artwork: release
+        ? {
+          key: `musicbrainz:${release.id}`,
+          url: `${this.options.coverArtUrl}/release/${release.id}/front-500`
+        }
+        : undefined
+    };
+  };
+
+  // Reserves the next free request slot, so concurrent searches queue up
+  private waitForTurn = async (): Promise<void> => {
+    const now = Date.now();
+    const at = Math.max(now, this.nextRequestAt);
+    this.nextRequestAt = at + this.options.minIntervalMs;
+
+    if (at > now) {
+      await new Promise(resolve => setTimeout(resolve, at - now));
+    }
+  };
+}
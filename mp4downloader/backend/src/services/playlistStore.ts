@@ -0,0 +1,30 @@
+import { PlaylistRecord } from '../types/download';
+import { JsonJournalStore } from './jsonJournalStore';
+
+/**
+ * Durable storage for playlists
+ */
+export interface PlaylistRepository {
+  /** Loads every persisted playlist, keyed by id */
+  loadAll(): Map<string, PlaylistRecord>;
+  /** Records the current state of a playlist */
+  save(playlist: PlaylistRecord): void;
+  /** Removes a playlist from the store */
+  remove(id: string): void;
+}
+
+/**
+ * Playlists kept in an append-only JSON journal
+ */
+export class JsonJournalPlaylistStore extends JsonJournalStore<PlaylistRecord> implements PlaylistRepository {
+  constructor(directory: string, fileName = 'playlists.journal.jsonl') {
+    super(directory, fileName);
+  }
+
+  protected revive(playlist: PlaylistRecord): PlaylistRecord {
+    return {
+      ...playlist,
+      createdAt: new Date(playlist.createdAt)
+    };
+  }
+}
@@ -0,0 +1,55 @@
+export interface RetryPolicyOptions {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  /** Delay before the first retry */
+  baseDelayMs: number;
+  /** Upper bound for any single delay */
+  maxDelayMs: number;
+}
+
+/**
+ * Decides whether a failed download is retried automatically and how long
+ * to wait: exponential backoff with jitter.
+ */
+export class RetryPolicy {
+  private options: RetryPolicyOptions;
+
+  constructor(options: RetryPolicyOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Policy configured from YTDL_RETRIES (default 3)
+   */
+  static fromEnv(): RetryPolicy {
+    const retries = Number(process.env.YTDL_RETRIES);
+    return new RetryPolicy({
+      maxRetries: Number.isInteger(retries) && retries >= 0 ? retries : 3,
+      baseDelayMs: Number(process.env.YTDL_RETRY_BASE_DELAY_MS) || 5000,
+      maxDelayMs: Number(process.env.YTDL_RETRY_MAX_DELAY_MS) || 5 * 60 * 1000
+    });
+  }
+
+  /** Total attempts a job gets, including the first one */
+  get maxAttempts(): number {
+    return this.options.maxRetries + 1;
+  }
+
+  /**
+   * @param attempts attempts made so far, including the one that just failed
+   * @param transient whether the failure is expected to go away on its own
+   */
+  public shouldRetry(attempts: number, transient: boolean): boolean {
+    return transient && attempts < this.maxAttempts;
+  }
+
+  /**
+   * Delay before the next attempt: base * 2^(attempts - 1), capped, with the
+   * upper half randomized so that jobs failing together don't retry together
+   */
+  public getDelay(attempts: number): number {
+    const exponential = this.options.baseDelayMs * 2 ** Math.max(0, attempts - 1);
+    const capped = Math.min(this.options.maxDelayMs, exponential);
+    return Math.round(capped / 2 + Math.random() * (capped / 2));
+  }
+}
@@ -0,0 +1,92 @@
+import * as fs from 'fs/promises';
+import { logger } from '../utils/logger';
+
+/** SponsorBlock categories yt-dlp can cut out of a download */
+export const SPONSORBLOCK_CATEGORIES = [
+  'sponsor',
+  'intro',
+  'outro',
+  'selfpromo',
+  'preview',
+  'filler',
+  'interaction',
+  'music_offtopic'
+] as const;
+export type SponsorBlockCategory = typeof SPONSORBLOCK_CATEGORIES[number];
+
+/** What "remove non-music segments" means when no categories are given */
+export const DEFAULT_SPONSORBLOCK_CATEGORIES: SponsorBlockCategory[] = [
+  'music_offtopic',
+  'intro',
+  'outro',
+  'sponsor'
+];
+
+/** Segment cut out of a download, in seconds of the original video */
+export interface RemovedSegment {
+  category: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * yt-dlp arguments that remove the given categories and write the segments
+ * it removed to reportPath as JSON. SPONSORBLOCK_API_URL replaces the
+ * public SponsorBlock server, e.g. with a local stand-in for testing.
+ */
+export const toSponsorBlockArgs = (categories: SponsorBlockCategory[], reportPath: string): string[] => {
+  const apiUrl = process.env.SPONSORBLOCK_API_URL;
+  return [
+    '--sponsorblock-remove', categories.join(','),
+    ...(apiUrl ? ['--sponsorblock-api', apiUrl] : []),
+    '--print-to-file', 'after_move:%(sponsorblock_chapters)j', reportPath
+  ];
+};
+
+/**
+ * Segments from a report written by toSponsorBlockArgs' --print-to-file;
+ * empty when nothing was removed or the report is missing. The report is
+ * deleted afterwards.
+ */
+export const readRemovedSegments = async (reportPath: string): Promise<RemovedSegment[]> => {
+  let content: string;
+  try {
+    content = await fs.readFile(reportPath, 'utf8');
+  } catch {
+    return [];
+  }
+  await fs.unlink(reportPath).catch(() => {
+    // Already gone
+  });
+
+  // yt-dlp appends one line per run and prints "NA" when no segment matched
+  const lastLine = content.trim().split('\n').pop() || '';
+  try {
+    const parsed: unknown = JSON.parse(lastLine);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+
+    return parsed
+      .filter((segment): segment is Record<string, unknown> => !!segment && typeof segment === 'object')
+      .filter(segment => segment.type !== 'poi')
+      .map(segment => ({
+        category: String(segment.category ?? 'unknown'),
+        start: Number(segment.start_time),
+        end: Number(segment.end_time)
+      }))
+      .filter(segment => Number.isFinite(segment.start) && segment.end > segment.start);
+  } catch (error) {
+    logger.warn(`Could not read SponsorBlock report ${reportPath}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Seconds removed from the given part of a video
+ */
+export const getRemovedDuration = (segments: RemovedSegment[], start = 0, end = Infinity): number =>
+  segments.reduce(
+    (total, segment) => total + Math.max(0, Math.min(segment.end, end) - Math.max(segment.start, start)),
+    0
+  );
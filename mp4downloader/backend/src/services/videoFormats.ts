@@ -0,0 +1,69 @@
+/** 'audio' extracts the audio track, 'video' keeps the video with its audio */
+export const DOWNLOAD_MODES = ['audio', 'video'] as const;
+export type DownloadMode = typeof DOWNLOAD_MODES[number];
+
+export const VIDEO_CONTAINERS = ['mp4', 'webm', 'mkv'] as const;
+export type VideoContainer = typeof VIDEO_CONTAINERS[number];
+
+/** Highest video heights that can be asked for; 'best' has no limit */
+export const VIDEO_RESOLUTIONS = ['best', '2160', '1440', '1080', '720', '480', '360'] as const;
+export type VideoResolution = typeof VIDEO_RESOLUTIONS[number];
+
+export interface VideoSettings {
+  /** Upper limit on the video height; smaller sources are not upscaled */
+  resolution: VideoResolution;
+  container: VideoContainer;
+}
+
+export const DEFAULT_VIDEO_SETTINGS: VideoSettings = { resolution: '1080', container: 'mp4' };
+
+interface VideoContainerSpec {
+  mimeType: string;
+  /**
+   * yt-dlp format selectors, best first: streams that fit the container
+   * without re-encoding, then anything yt-dlp can remux into it
+   */
+  formats: string[];
+  /** yt-dlp can remux any codecs into the container */
+  remuxes: boolean;
+  /** yt-dlp can embed the thumbnail as cover art */
+  embedsThumbnail: boolean;
+}
+
+export const VIDEO_CONTAINER_SPECS: Record<VideoContainer, VideoContainerSpec> = {
+  // H.264 + AAC plays everywhere; VP9/AV1 in MP4 does not
+  mp4: {
+    mimeType: 'video/mp4',
+    formats: ['bv*[vcodec^=avc1]{height}+ba[acodec^=mp4a]', 'b[ext=mp4]{height}', 'bv*{height}+ba', 'b{height}'],
+    remuxes: true,
+    embedsThumbnail: true
+  },
+  // WebM only holds VP8/VP9/AV1 with Vorbis/Opus, so nothing else is picked
+  webm: {
+    mimeType: 'video/webm',
+    formats: ['bv*[ext=webm]{height}+ba[ext=webm]', 'b[ext=webm]{height}'],
+    remuxes: false,
+    embedsThumbnail: false
+  },
+  mkv: {
+    mimeType: 'video/x-matroska',
+    formats: ['bv*{height}+ba', 'b{height}'],
+    remuxes: true,
+    embedsThumbnail: true
+  }
+};
+
+/**
+ * yt-dlp arguments that select and merge the streams for a video download
+ */
+export const toYtDlpVideoArgs = (settings: VideoSettings): string[] => {
+  const spec = VIDEO_CONTAINER_SPECS[settings.container];
+  const height = settings.resolution === 'best' ? '' : `[height<=${settings.resolution}]`;
+  const selector = spec.formats.map(format => format.replace('{height}', height)).join('/');
+
+  return [
+    '--format', selector,
+    '--merge-output-format', settings.container,
+    ...(spec.remuxes ? ['--remux-video', settings.container] : [])
+  ];
+};
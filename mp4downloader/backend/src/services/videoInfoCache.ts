@@ -0,0 +1,91 @@
+export interface VideoInfoCacheOptions {
+  /** How long a loaded value is reused */
+  ttlMs: number;
+  /** Oldest entries are dropped beyond this many */
+  maxEntries: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * Keeps looked up video information for a while, and shares one lookup
+ * between callers asking for the same key at the same time. Failed lookups
+ * are not cached.
+ */
+export class VideoInfoCache<T> {
+  private options: VideoInfoCacheOptions;
+  private entries: Map<string, CacheEntry<T>>;
+  private inFlight: Map<string, Promise<T>>;
+
+  constructor(options: VideoInfoCacheOptions) {
+    this.options = options;
+    this.entries = new Map();
+    this.inFlight = new Map();
+  }
+
+  /**
+   * Cache configured from VIDEO_INFO_CACHE_TTL_MS (default 1 hour) and
+   * VIDEO_INFO_CACHE_SIZE (default 1000)
+   */
+  static fromEnv<T>(): VideoInfoCache<T> {
+    return new VideoInfoCache<T>({
+      ttlMs: Number(process.env.VIDEO_INFO_CACHE_TTL_MS) || 60 * 60 * 1000,
+      maxEntries: Number(process.env.VIDEO_INFO_CACHE_SIZE) || 1000
+    });
+  }
+
+  /**
+   * Cached value for key, or the result of load, which runs at most once
+   * per key at a time
+   */
+  public getOrLoad(key: string, load: () => Promise<T>): Promise<T> {
+    const cached = this.get(key);
+    if (cached !== undefined) {
+      return Promise.resolve(cached);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const request = load()
+      .then(value => {
+        this.set(key, value);
+        return value;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  public get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  public set(key: string, value: T): void {
+    // Re-inserting keeps the Map in insertion order, oldest first
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.options.ttlMs });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import { ChildProcess } from 'child_process';
+import { logger } from '../utils/logger';
+import { killProcessTree, spawnKillable } from '../utils/processTree';
+import { YtDlpProcessError } from './ytDlpErrors';
+
+export interface VideoInfo {
+  id: string;
+  title: string;
+  uploader?: string;
+  webpage_url?: string;
+  duration?: number;
+  upload_date?: string;
+  categories?: string[];
+  thumbnail?: string;
+  /** Set for releases YouTube knows as music, e.g. on Topic channels */
+  artist?: string;
+  track?: string;
+  album?: string;
+  /** Chapters in playback order, as the uploader marked them */
+  chapters?: VideoChapter[];
+}
+
+export interface VideoChapter {
+  title: string;
+  /** Seconds */
+  start_time: number;
+  /** Seconds */
+  end_time: number;
+}
+
+export interface PlaylistEntry {
+  id: string;
+  title?: string;
+  url: string;
+  uploader?: string;
+  duration?: number;
+}
+
+export interface PlaylistInfo {
+  id?: string;
+  title?: string;
+  entries: PlaylistEntry[];
+}
+
+export interface YtDlpClientOptions {
+  /** yt-dlp executable, looked up in PATH unless absolute */
+  binary: string;
+  /** Time limit for metadata calls; downloads are not limited */
+  timeoutMs: number;
+  /** Largest stdout accepted from a metadata call */
+  maxOutputBytes: number;
+}
+
+// How much of yt-dlp's stderr is kept for error reporting
+const MAX_STDERR_LENGTH = 16 * 1024;
+
+/**
+ * The only place yt-dlp is started from. Arguments are always passed as an
+ * argv array, never through a shell, and URLs come after "--" so they
+ * cannot be read as options.
+ */
+export class YtDlpClient {
+  private options: YtDlpClientOptions;
+
+  constructor(options: YtDlpClientOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Client configured from YTDLP_PATH, YTDLP_TIMEOUT_MS (default 60s) and
+   * YTDLP_MAX_OUTPUT_BYTES (default 32 MB)
+   */
+  static fromEnv(): YtDlpClient {
+    return new YtDlpClient({
+      binary: process.env.YTDLP_PATH || 'yt-dlp',
+      timeoutMs: Number(process.env.YTDLP_TIMEOUT_MS) || 60 * 1000,
+      maxOutputBytes: Number(process.env.YTDLP_MAX_OUTPUT_BYTES) || 32 * 1024 * 1024
+    });
+  }
+
+  /**
+   * Metadata of a single video
+   */
+  public getVideoInfo = async (url: string): Promise<VideoInfo> => {
+    const stdout = await this.run(['--dump-json', '--no-warnings', '--no-playlist', '--', url]);
+    return YtDlpClient.parseVideoInfo(YtDlpClient.parseJson(stdout));
+  };
+
+  /**
+   * Title and entries of a playlist, without resolving each video
+   */
+  public getPlaylistInfo = async (url: string): Promise<PlaylistInfo> => {
+    const stdout = await this.run(['--flat-playlist', '--dump-single-json', '--no-warnings', '--', url]);
+    return YtDlpClient.parsePlaylistInfo(YtDlpClient.parseJson(stdout));
+  };
+
+  /**
+   * Starts a download. The process runs until it exits or is killed; the
+   * caller owns it and its output.
+   */
+  public spawnDownload = (url: string, options: string[]): ChildProcess => {
+    return spawnKillable(this.options.binary, [...options, '--', url]);
+  };
+
+  /**
+   * Runs yt-dlp to completion and returns its stdout
+   */
+  private run(args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = spawnKillable(this.options.binary, args);
+      const chunks: Buffer[] = [];
+      let outputBytes = 0;
+      let stderr = '';
+      let failure: YtDlpProcessError | null = null;
+
+      const fail = (error: YtDlpProcessError) => {
+        if (failure) {
+          return;
+        }
+        failure = error;
+        killProcessTree(child).catch(killError => {
+          logger.error('Failed to stop yt-dlp:', killError);
+        });
+      };
+
+      const timer = setTimeout(() => {
+        fail(new YtDlpProcessError(null, stderr, `yt-dlp timed out after ${this.options.timeoutMs} ms`));
+      }, this.options.timeoutMs);
+
+      child.stdout?.on('data', (data: Buffer) => {
+        outputBytes += data.length;
+        if (outputBytes > this.options.maxOutputBytes) {
+          fail(new YtDlpProcessError(null, stderr, `yt-dlp output exceeded ${this.options.maxOutputBytes} bytes`));
+          return;
+        }
+        chunks.push(data);
+      });
+
+      child.stderr?.on('data', (data: Buffer) => {
+        stderr = (stderr + data.toString()).slice(-MAX_STDERR_LENGTH);
+      });
+
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject(new YtDlpProcessError(null, error.message, `Could not start yt-dlp: ${error.message}`));
+      });
+
+      child.on('close', code => {
+        clearTimeout(timer);
+
+        if (failure) {
+          return reject(failure);
+        }
+        if (code !== 0) {
+          return reject(new YtDlpProcessError(code, stderr));
+        }
+        resolve(Buffer.concat(chunks).toString('utf8'));
+      });
+    });
+  }
+
+  private static parseJson(stdout: string): Record<string, unknown> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(stdout);
+    } catch {
+      throw new Error('yt-dlp returned invalid JSON');
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('yt-dlp returned an unexpected JSON value');
+    }
+    return parsed as Record<string, unknown>;
+  }
+
+  private static parseVideoInfo(raw: Record<string, unknown>): VideoInfo {
+    const id = asString(raw.id);
+    if (!id) {
+      throw new Error('yt-dlp returned video information without an id');
+    }
+
+    return {
+      id,
+      title: asString(raw.title) || 'Untitled',
+      uploader: asString(raw.uploader) || asString(raw.channel),
+      webpage_url: asString(raw.webpage_url),
+      duration: asNumber(raw.duration),
+      upload_date: asString(raw.upload_date),
+      categories: Array.isArray(raw.categories)
+        ? raw.categories.filter((category): category is string => typeof category === 'string')
+        : undefined,
+      thumbnail: asString(raw.thumbnail),
+      artist: asString(raw.artist)
+        || (Array.isArray(raw.artists) ? asString(raw.artists[0]) : undefined),
+      track: asString(raw.track),
+      album: asString(raw.album),
+      chapters: Array.isArray(raw.chapters) ? YtDlpClient.parseChapters(raw.chapters) : undefined
+    };
+  }
+
+  private static parseChapters(chapters: unknown[]): VideoChapter[] {
+    return chapters
+      .filter((chapter): chapter is Record<string, unknown> => !!chapter && typeof chapter === 'object')
+      .map((chapter, index) => ({
+        title: asString(chapter.title) || `Chapter ${index + 1}`,
+        start_time: asNumber(chapter.start_time) ?? NaN,
+        end_time: asNumber(chapter.end_time) ?? NaN
+      }))
+      .filter(chapter => chapter.end_time > chapter.start_time);
+  }
+
+  private static parsePlaylistInfo(raw: Record<string, unknown>): PlaylistInfo {
+    const entries = Array.isArray(raw.entries) ? raw.entries : [];
+
+    return {
+      id: asString(raw.id),
+      title: asString(raw.title),
+      entries: entries
+        .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+        .map(entry => {
+          const id = asString(entry.id);
+          const url = asString(entry.url) || asString(entry.webpage_url) ||
+            (id ? `https://www.youtube.com/watch?v=${id}` : undefined);
+          return { entry, id, url };
+        })
+        .filter((item): item is { entry: Record<string, unknown>; id: string; url: string } => !!item.id && !!item.url)
+        .map(({ entry, id, url }) => ({
+          id,
+          url,
+          title: asString(entry.title),
+          uploader: asString(entry.uploader) || asString(entry.channel),
+          duration: asNumber(entry.duration)
+        }))
+    };
+  }
+}
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.length > 0 ? value : undefined;
+
+const asNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
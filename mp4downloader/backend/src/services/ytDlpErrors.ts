@@ -0,0 +1,145 @@
+/**
+ * yt-dlp exited with a non-zero code. Keeps the tail of its stderr, which
+ * is the only place yt-dlp explains what went wrong.
+ */
+export class YtDlpProcessError extends Error {
+  public readonly exitCode: number | null;
+  public readonly stderr: string;
+
+  constructor(exitCode: number | null, stderr: string, message?: string) {
+    super(message || `yt-dlp process exited with code ${exitCode}`);
+    this.name = 'YtDlpProcessError';
+    this.exitCode = exitCode;
+    this.stderr = stderr;
+  }
+}
+
+export type DownloadErrorCode =
+  | 'private_video'
+  | 'age_restricted'
+  | 'geo_blocked'
+  | 'video_removed'
+  | 'copyright_claim'
+  | 'rate_limited'
+  | 'ffmpeg_missing'
+  | 'network_error'
+  | 'unknown';
+
+export interface ErrorClassification {
+  code: DownloadErrorCode;
+  /** Explanation that can be shown to the user as is */
+  message: string;
+  /** Worth retrying by hand (possibly after fixing something on the server) */
+  retryable: boolean;
+  /** Likely to go away on its own, so it is retried automatically */
+  transient: boolean;
+}
+
+interface ClassificationRule extends ErrorClassification {
+  patterns: RegExp[];
+}
+
+// Checked in order; "Video unavailable" is the prefix of several more
+// specific messages, so the generic removed rule comes after them
+const CLASSIFICATION_RULES: ClassificationRule[] = [
+  {
+    code: 'copyright_claim',
+    message: 'This video was blocked because of a copyright claim.',
+    retryable: false,
+    transient: false,
+    patterns: [/copyright (claim|grounds)/i, /who has blocked it/i]
+  },
+  {
+    code: 'private_video',
+    message: 'This video is private. Only the uploader and invited viewers can access it.',
+    retryable: false,
+    transient: false,
+    patterns: [/Private video/i, /This video is private/i, /been granted access to this video/i]
+  },
+  {
+    code: 'age_restricted',
+    message: 'This video is age-restricted and cannot be downloaded without signing in.',
+    retryable: false,
+    transient: false,
+    patterns: [/confirm your age/i, /age[- ]restricted/i, /inappropriate for some users/i]
+  },
+  {
+    code: 'geo_blocked',
+    message: 'This video is not available in the server\'s country.',
+    retryable: false,
+    transient: false,
+    patterns: [/not (made this video )?available in your country/i, /geo[- ]?restrict/i, /blocked it in your country/i]
+  },
+  {
+    code: 'rate_limited',
+    message: 'The site is rate limiting our requests. The download will be retried later.',
+    retryable: true,
+    transient: true,
+    patterns: [/HTTP Error 429/i, /Too Many Requests/i, /rate[- ]limit/i, /confirm you.?re not a bot/i]
+  },
+  {
+    code: 'video_removed',
+    message: 'This video has been removed or does not exist.',
+    retryable: false,
+    transient: false,
+    patterns: [
+      /Video unavailable/i,
+      /(has been|was) removed/i,
+      /no longer available/i,
+      /account associated with this video has been terminated/i,
+      /This video does not exist/i,
+      /HTTP Error 404/i
+    ]
+  },
+  {
+    code: 'ffmpeg_missing',
+    message: 'ffmpeg is not installed on the server, so the audio could not be converted.',
+    retryable: true,
+    transient: false,
+    patterns: [/ff(mpeg|probe)( and ff(mpeg|probe))? not found/i, /ffmpeg is not installed/i]
+  },
+  {
+    code: 'network_error',
+    message: 'A network error interrupted the download. It will be retried automatically.',
+    retryable: true,
+    transient: true,
+    patterns: [
+      /HTTP Error 5\d\d/i,
+      /Connection (reset|refused|aborted)/i,
+      /ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN|ENETUNREACH/,
+      /timed out/i,
+      /Temporary failure in name resolution/i,
+      /Network is unreachable/i,
+      /Remote end closed connection/i,
+      /IncompleteRead/i,
+      /Unable to download (webpage|API page)/i
+    ]
+  }
+];
+
+const UNKNOWN_ERROR: ErrorClassification = {
+  code: 'unknown',
+  message: 'The download failed for an unknown reason.',
+  retryable: true,
+  transient: false
+};
+
+/**
+ * Maps yt-dlp output (usually stderr) to a stable error code
+ */
+export const classifyYtDlpError = (output: string): ErrorClassification => {
+  const rule = CLASSIFICATION_RULES.find(candidate =>
+    candidate.patterns.some(pattern => pattern.test(output))
+  );
+
+  if (!rule) {
+    return UNKNOWN_ERROR;
+  }
+
+  return {
+    code: rule.code,
+    message: rule.message,
+    retryable: rule.retryable,
+    transient: rule.transient
+  };
+};
@@ -0,0 +1,212 @@
+import { DownloadErrorCode } from '../services/ytDlpErrors';
+import { AudioFormat } from '../services/audioFormats';
+import { AudioQuality } from '../services/audioQuality';
+import { TimeRange } from '../utils/timeRange';
+import { LoudnessMeasurement, LoudnessSettings, ReplayGain } from '../services/loudness';
+import { RemovedSegment, SponsorBlockCategory } from '../services/sponsorBlock';
+import { DownloadMode, VideoSettings } from '../services/videoFormats';
+import { MetadataProviderName } from '../services/metadataProviders';
+
+export interface MetadataMatch {
+  provider: MetadataProviderName;
+  /** 0 to 1, see scoreMatch */
+  confidence: number;
+}
+
+export const DOWNLOAD_STATUSES = [
+  'queued',
+  'downloading',
+  'processing',
+  'completed',
+  'error',
+  'interrupted',
+  'cancelled',
+  'retrying'
+] as const;
+
+export type DownloadStatus = typeof DOWNLOAD_STATUSES[number];
+
+/** Measured properties of a produced audio file */
+export interface AudioProperties {
+  codec?: string;
+  container?: string;
+  /** kbps */
+  bitrate?: number;
+  sampleRate?: number;
+  lossless?: boolean;
+}
+
+export interface StatusTransition {
+  status: DownloadStatus;
+  at: Date;
+}
+
+/** Entry of the urls list when starting downloads */
+export type DownloadRequestEntry =
+  | string
+  | { url: string; start?: string | number; end?: string | number };
+
+export interface DownloadInfo {
+  id: string;
+  url: string;
+  status: DownloadStatus;
+  progress: number;
+  quality?: AudioQuality;
+  /** Set on video downloads, which ignore the audio format and quality */
+  video?: VideoSettings;
+  /** Output format; jobs from before formats were selectable are MP3 */
+  format?: AudioFormat;
+  /** Part of the video to download; the whole video when missing */
+  range?: TimeRange;
+  /** Loudness step after conversion; none when missing */
+  loudness?: LoudnessSettings;
+  /** EBU R128 measurement of the converted audio, before any normalization */
+  loudnessMeasurement?: LoudnessMeasurement;
+  /** Gain written as ReplayGain tags in 'replaygain' mode */
+  replayGain?: ReplayGain;
+  /** SponsorBlock categories cut out of the audio; nothing is cut when missing */
+  sponsorBlock?: SponsorBlockCategory[];
+  /** Segments that were cut, once the download has finished */
+  removedSegments?: RemovedSegment[];
+  /** Set on jobs that are one chapter of a video split by chapters */
+  chapter?: { index: number; total: number; title: string };
+  /** Square cover embedded in the file, shared by all jobs of the video */
+  coverPath?: string;
+  /** The cover is in the file too; WAV, WebM and raw AAC cannot hold one */
+  coverEmbedded?: boolean;
+  /** Release the album, year, genre and artwork tags were looked up from */
+  metadataMatch?: MetadataMatch;
+  /** What ended up in the output file, e.g. the source codec in passthrough mode */
+  audio?: AudioProperties;
+  /** Attempts started in the current series, including the running one */
+  attempts?: number;
+  /** When the next automatic retry starts, while status is 'retrying' */
+  nextRetryAt?: Date;
+  title?: string;
+  outputPath?: string;
+  /** Technical error message */
+  error?: string;
+  errorCode?: DownloadErrorCode;
+  /** Explanation of errorCode for the user */
+  errorMessage?: string;
+  /** Whether retrying can help */
+  retryable?: boolean;
+  lastUpdated: Date;
+  createdAt?: Date;
+  statusHistory?: StatusTransition[];
+  size?: number;
+  playlistId?: string;
+  /** 1-based position in the playlist */
+  playlistIndex?: number;
+  metadata?: {
+    title: string;
+    artist: string;
+    /** Credited with feat. in the title tag */
+    featuredArtists?: string[];
+    album: string;
+    year: string;
+    genre: string;
+    comment: string;
+    duration: number;
+  };
+}
+
+/**
+ * Public view of a job, returned by the status endpoint and pushed to
+ * event stream subscribers
+ */
+export interface DownloadStatusView {
+  id: string;
+  url: string;
+  status: DownloadStatus;
+  progress: number;
+  queuePosition?: number;
+  attempts: number;
+  maxAttempts: number;
+  nextRetryAt?: Date;
+  title?: string;
+  format: AudioFormat;
+  /** Requested quality, e.g. "192" or "V2"; see audio.bitrate for the result */
+  quality: string;
+  range?: TimeRange;
+  loudness?: LoudnessSettings;
+  /** Integrated loudness of the converted audio in LUFS, before normalization */
+  measuredLoudness?: number;
+  replayGain?: ReplayGain;
+  sponsorBlock?: SponsorBlockCategory[];
+  removedSegments?: RemovedSegment[];
+  mode: DownloadMode;
+  video?: VideoSettings;
+  /** Cover art is available from the cover endpoint */
+  hasCover: boolean;
+  /**
+   * The cover is embedded in the file; false for containers without a
+   * place for one (WAV, WebM, raw AAC), whose cover is only served
+   */
+  coverEmbedded: boolean;
+  metadataMatch?: MetadataMatch;
+  /** Audio track of the file, also for videos */
+  audio?: AudioProperties;
+  filePath?: string;
+  lastUpdated: Date;
+  size?: number;
+  error?: string;
+  errorCode?: DownloadErrorCode;
+  errorMessage?: string;
+  retryable?: boolean;
+}
+
+/** Reduced view for clients that only track progress */
+export type CompactDownloadStatusView = Pick<
+  DownloadStatusView,
+  'id' | 'status' | 'progress' | 'queuePosition' | 'error' | 'errorCode'
+>;
+
+/** 'chapters' groups the tracks of one video split by chapters */
+export type PlaylistKind = 'playlist' | 'chapters';
+
+/** A playlist as submitted; its entries are regular download jobs */
+export interface PlaylistRecord {
+  id: string;
+  url: string;
+  title: string;
+  /** Records from before chapter splitting are playlists */
+  kind?: PlaylistKind;
+  /** Job ids in playlist order */
+  entryIds: string[];
+  createdAt: Date;
+}
+
+export type PlaylistStatus = 'pending' | 'processing' | 'completed' | 'error';
+
+/** Playlist with the state of its entries rolled up */
+export interface PlaylistView {
+  id: string;
+  url: string;
+  title: string;
+  kind: PlaylistKind;
+  videoCount: number;
+  status: PlaylistStatus;
+  /** Average progress of the entries */
+  progress: number;
+  completedItems: number;
+  totalItems: number;
+  error?: string;
+  createdAt: Date;
+  items: Array<{
+    id: string;
+    url: string;
+    title: string;
+    status: DownloadStatus;
+    progress: number;
+    error?: string;
+  }>;
+}
+
+export type DownloadEvent =
+  | { type: 'download'; download: DownloadStatusView }
+  | { type: 'queue'; positions: Record<string, number> }
+  | { type: 'playlist'; playlist: PlaylistView };
+
+/** Statuses of jobs that have a yt-dlp process (or are about to) */
+export const ACTIVE_STATUSES: DownloadStatus[] = ['queued', 'downloading', 'processing', 'retrying'];
@@ -9,6 +9,22 @@ declare module 'node-id3' {
     imageBuffer: Buffer;
   }
 
+  /** CHAP frame: one chapter, with its own subframes such as a title */
+  interface ChapterFrame {
+    elementID: string;
+    startTimeMs: number;
+    endTimeMs: number;
+    tags?: Tags;
+  }
+
+  /** CTOC frame: chapter element ids in playback order */
+  interface TableOfContentsFrame {
+    elementID: string;
+    isOrdered?: boolean;
+    elements?: string[];
+    tags?: Tags;
+  }
+
   interface Tags {
     title?: string;
     artist?: string;
@@ -21,6 +37,13 @@ declare module 'node-id3' {
       text: string;
     };
     image?: ImageFrame | string | Buffer;
+    /** TLEN: length in milliseconds */
+    length?: string;
+    /** TXXX frames, e.g. ReplayGain values */
+    userDefinedText?: Array<{ description: string; value: string }>;
+    chapter?: ChapterFrame[];
+    /** The first entry is written as the top-level table */
+    tableOfContents?: TableOfContentsFrame[];
   }
 
   function write(tags: Tags, filePath: string, callback: (error: Error | null) => void): void;
@@ -29,6 +52,8 @@ declare module 'node-id3' {
   const _default: {
     write: typeof write;
     read: typeof read;
+    /** Merges the given frames into the file's tag; returns an Error on failure */
+    update(tags: Tags, filePath: string): true | Error;
   };
   
   export = _default;
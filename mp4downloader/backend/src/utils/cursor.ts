@@ -0,0 +1,34 @@
+/**
+ * Position in a list sorted by createdAt, with the id as tie-breaker
+ */
+export interface ListCursor {
+  createdAt: number;
+  id: string;
+}
+
+/**
+ * Encodes a cursor as an opaque URL-safe string
+ */
+export const encodeCursor = (cursor: ListCursor): string =>
+  Buffer.from(JSON.stringify([cursor.createdAt, cursor.id])).toString('base64url');
+
+/**
+ * Decodes a cursor created by encodeCursor
+ * @returns the cursor, or null if the value is not a valid cursor
+ */
+export const decodeCursor = (value: string): ListCursor | null => {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      Number.isFinite(decoded[0]) &&
+      typeof decoded[1] === 'string'
+    ) {
+      return { createdAt: decoded[0], id: decoded[1] };
+    }
+  } catch {
+    // Fall through to null
+  }
+  return null;
+};
@@ -0,0 +1,121 @@
+import { Request, Response } from 'express';
+import * as fs from 'fs-extra';
+import { logger } from './logger';
+
+export interface SendFileOptions {
+  contentType: string;
+  /** Name offered to the browser */
+  fileName: string;
+  /** 'attachment' to save the file, 'inline' to play or show it */
+  disposition: 'attachment' | 'inline';
+}
+
+/**
+ * Content-Disposition value for a file name: an ASCII fallback for old
+ * clients plus the exact UTF-8 name (RFC 6266)
+ */
+export const toContentDisposition = (disposition: 'attachment' | 'inline', fileName: string): string => {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName)
+    .replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+/**
+ * Strong validator derived from size and modification time, so it changes
+ * whenever the file is rewritten (e.g. re-tagged)
+ */
+const createETag = (stats: fs.Stats): string =>
+  `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+
+/**
+ * Whether the Range header may be honoured: If-Range must still match the
+ * current file, otherwise the client gets the whole new file
+ */
+const isIfRangeFresh = (req: Request, etag: string, lastModified: Date): boolean => {
+  const ifRange = req.get('If-Range');
+  if (!ifRange) {
+    return true;
+  }
+
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return ifRange === etag;
+  }
+
+  const date = Date.parse(ifRange);
+  return !Number.isNaN(date) && Math.floor(lastModified.getTime() / 1000) <= Math.floor(date / 1000);
+};
+
+/**
+ * Sends a file with support for conditional requests (ETag/Last-Modified,
+ * 304) and single byte ranges (206/416), so clients can resume transfers
+ * and seek in media.
+ */
+export const sendFileWithRanges = async (
+  req: Request,
+  res: Response,
+  filePath: string,
+  options: SendFileOptions
+): Promise<void> => {
+  const stats = await fs.promises.stat(filePath);
+  const etag = createETag(stats);
+
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('ETag', etag);
+  res.setHeader('Last-Modified', stats.mtime.toUTCString());
+  // Cacheable, but always revalidated against the ETag
+  res.setHeader('Cache-Control', 'private, no-cache');
+  res.setHeader('Content-Type', options.contentType);
+  res.setHeader('Content-Disposition', toContentDisposition(options.disposition, options.fileName));
+
+  // req.fresh compares If-None-Match/If-Modified-Since with the headers above
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  let start = 0;
+  let end = stats.size - 1;
+
+  if (req.headers.range && isIfRangeFresh(req, etag, stats.mtime)) {
+    const ranges = req.range(stats.size, { combine: true });
+
+    if (ranges === -1) {
+      res.setHeader('Content-Range', `bytes */${stats.size}`);
+      res.status(416).end();
+      return;
+    }
+
+    // Malformed headers are ignored, and multiple ranges are answered with
+    // the whole file, which RFC 9110 allows instead of a multipart response
+    if (Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1) {
+      start = ranges[0].start;
+      end = ranges[0].end;
+      res.status(206);
+      res.setHeader('Content-Range', `bytes ${start}-${end}/${stats.size}`);
+    }
+  }
+
+  res.setHeader('Content-Length', stats.size === 0 ? 0 : end - start + 1);
+
+  if (req.method === 'HEAD' || stats.size === 0) {
+    res.end();
+    return;
+  }
+
+  const fileStream = fs.createReadStream(filePath, { start, end });
+
+  fileStream.on('error', (error: Error) => {
+    logger.error('Error streaming file:', { error: error.message, path: filePath });
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Error streaming file', details: error.message });
+    } else {
+      res.destroy(error);
+    }
+  });
+
+  // Stop reading when the client goes away, e.g. after seeking elsewhere
+  res.on('close', () => fileStream.destroy());
+
+  fileStream.pipe(res);
+};
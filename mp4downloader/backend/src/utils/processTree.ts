@@ -0,0 +1,77 @@
+import { ChildProcess, spawn, SpawnOptions } from 'child_process';
+import { logger } from './logger';
+
+// Processes started with spawnKillable that have not exited yet
+const runningProcesses = new Set<ChildProcess>();
+
+/**
+ * Spawns a process that may later be passed to killProcessTree. On POSIX
+ * the child becomes the leader of its own process group, so the ffmpeg
+ * processes yt-dlp starts can be signalled together with it. Such a group
+ * does not end with the server, so it is tracked for killAllProcessTrees.
+ */
+export const spawnKillable = (command: string, args: string[]): ChildProcess => {
+  const options: SpawnOptions = { detached: process.platform !== 'win32' };
+  const child = spawn(command, args, options);
+
+  runningProcesses.add(child);
+  child.once('exit', () => runningProcesses.delete(child));
+  child.once('error', () => runningProcesses.delete(child));
+  return child;
+};
+
+/**
+ * Terminates a child process and everything it spawned. Sends SIGTERM first
+ * and escalates to SIGKILL if the process is still alive after graceMs.
+ * Resolves once the process has exited.
+ */
+export const killProcessTree = (child: ChildProcess, graceMs = 5000): Promise<void> => {
+  return new Promise(resolve => {
+    const pid = child.pid;
+    if (!pid || child.exitCode !== null || child.signalCode !== null) {
+      return resolve();
+    }
+
+    const signal = (sig: NodeJS.Signals) => {
+      try {
+        if (process.platform === 'win32') {
+          spawn('taskkill', ['/pid', String(pid), '/T', '/F']);
+        } else {
+          // A negative pid addresses the whole process group
+          process.kill(-pid, sig);
+        }
+      } catch {
+        // The group may already be gone, fall back to the direct child
+        try {
+          child.kill(sig);
+        } catch {
+          logger.debug(`Process ${pid} already exited`);
+        }
+      }
+    };
+
+    const forceTimer = setTimeout(() => {
+      logger.warn(`Process ${pid} did not exit after ${graceMs}ms, sending SIGKILL`);
+      signal('SIGKILL');
+    }, graceMs);
+
+    // Don't wait forever if the exit event never arrives
+    const giveUpTimer = setTimeout(resolve, graceMs * 2);
+
+    child.once('exit', () => {
+      clearTimeout(forceTimer);
+      clearTimeout(giveUpTimer);
+      resolve();
+    });
+
+    signal('SIGTERM');
+  });
+};
+
+/**
+ * Terminates every process tree started with spawnKillable that is still
+ * running, e.g. when the server shuts down
+ */
+export const killAllProcessTrees = async (graceMs?: number): Promise<void> => {
+  await Promise.all(Array.from(runningProcesses, child => killProcessTree(child, graceMs)));
+};
@@ -0,0 +1,94 @@
+export interface TimeRange {
+  /** Seconds from the start of the video */
+  start?: number;
+  /** Seconds from the start of the video; open ended when missing */
+  end?: number;
+}
+
+const CLOCK_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/;
+const UNITS_PATTERN = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+(?:\.\d+)?)s?)?$/i;
+
+/**
+ * Seconds for a timestamp given as seconds (90, "90", "90.5"), a clock
+ * ("1:30", "01:02:03") or YouTube's t= notation ("1m30s", "1h2m3s").
+ * Returns null when the value is none of these.
+ */
+export const parseTimestamp = (value: unknown): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+
+  const text = value.trim();
+  const clock = CLOCK_PATTERN.exec(text);
+  if (clock) {
+    const [, hours = '0', minutes, seconds] = clock;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  }
+
+  const units = UNITS_PATTERN.exec(text);
+  if (units && (units[1] || units[2] || units[3])) {
+    const [, hours = '0', minutes = '0', seconds = '0'] = units;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  }
+
+  return null;
+};
+
+/**
+ * Start time carried in a shared link, e.g. "?t=90" or "&t=1m30s"
+ */
+export const getUrlStartTime = (url: string): number | undefined => {
+  try {
+    const value = new URL(url).searchParams.get('t');
+    return parseTimestamp(value) ?? undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Range asked for with a download: explicit start/end win over the URL's t=
+ */
+export const getRequestedRange = (url: string, start?: unknown, end?: unknown): TimeRange => ({
+  start: parseTimestamp(start) ?? getUrlStartTime(url),
+  end: parseTimestamp(end) ?? undefined
+});
+
+// Whole seconds in t= notation, e.g. "1h2m3s"; contains no dots or colons
+const formatCompact = (seconds: number): string => {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  return `${hours ? `${hours}h` : ''}${hours || minutes ? `${minutes}m` : ''}${total % 60}s`;
+};
+
+/**
+ * Label that tells clips of the same video apart in file names, e.g.
+ * "1m30s-3m30s" or "45m0s-end"
+ */
+export const getRangeLabel = (range: TimeRange): string =>
+  `${formatCompact(range.start ?? 0)}-${range.end !== undefined ? formatCompact(range.end) : 'end'}`;
+
+/**
+ * Length of the selected part of a video that lasts duration seconds (0
+ * when unknown)
+ */
+export const getRangeDuration = (range: TimeRange, duration: number): number => {
+  const end = range.end !== undefined && (!duration || range.end < duration) ? range.end : duration;
+  return Math.max(0, end - (range.start ?? 0));
+};
+
+/**
+ * Value for yt-dlp --download-sections, e.g. "*90-210" or "*90-inf"
+ */
+export const toDownloadSection = (range: TimeRange): string =>
+  `*${range.start ?? 0}-${range.end ?? 'inf'}`;
+
+/**
+ * Whether a range selects less than the whole video
+ */
+export const isTrimmed = (range: TimeRange): boolean =>
+  (range.start !== undefined && range.start > 0) || range.end !== undefined;
@@ -0,0 +1,36 @@
+const YOUTUBE_HOSTS = ['youtube.com', 'youtube-nocookie.com'];
+
+// Path prefixes that are followed by the video id, e.g. /shorts/<id>
+const YOUTUBE_ID_PATHS = ['shorts', 'embed', 'live', 'v'];
+
+/**
+ * Key that is the same for every URL form of a video: all YouTube hosts
+ * and URL shapes map to "youtube:<id>", anything else to the URL without
+ * its fragment.
+ */
+export const getCanonicalVideoKey = (url: string): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^(www|m|music)\./, '');
+  const segments = parsed.pathname.split('/').filter(Boolean);
+  let videoId: string | null = null;
+
+  if (host === 'youtu.be') {
+    videoId = segments[0] || null;
+  } else if (YOUTUBE_HOSTS.includes(host)) {
+    videoId = parsed.searchParams.get('v') ||
+      (YOUTUBE_ID_PATHS.includes(segments[0]) ? segments[1] || null : null);
+  }
+
+  if (videoId) {
+    return `youtube:${videoId}`;
+  }
+
+  parsed.hash = '';
+  return parsed.toString();
+};
@@ -3,7 +3,7 @@ import { ChakraProvider, Container, Box, VStack, Text, useToast } from '@chakra-
 import type { FC } from 'react';
 
 // Types
-import type { DownloadItem, QualityOption } from './types';
+import type { DownloadItem, DownloadProgress, DownloadRequest, PlaylistInfo, QualityOption } from './types';
 
 // Services
 import { downloadService } from './services/api';
@@ -15,43 +15,107 @@ import StatusBar from './components/StatusBar/StatusBar';
 
 const App: FC = () => {
   const [downloadItems, setDownloadItems] = useState<DownloadItem[]>([]);
+  const [playlists, setPlaylists] = useState<Record<string, PlaylistInfo>>({});
   const [isDownloading, setIsDownloading] = useState(false);
+  const [isEventStreamConnected, setIsEventStreamConnected] = useState(false);
   const toast = useToast();
   const pollingIntervalRef = useRef<number | null>(null);
+  const downloadItemsRef = useRef<DownloadItem[]>([]);
 
-  // Poll for download status updates
+  // Let the polling callback read the latest items without being re-created
   useEffect(() => {
-    const pollStatus = async () => {
-      const activeDownloads = downloadItems.filter(
-        (item) => item.status === 'downloading' || item.status === 'converting'
+    downloadItemsRef.current = downloadItems;
+  }, [downloadItems]);
+
+  // Merge status updates from the server into the matching items
+  const applyStatusUpdates = useCallback((statuses: DownloadProgress[]) => {
+    setDownloadItems((prevItems) =>
+      prevItems.map((item) => {
+        const status = statuses.find((s) => s.id === item.id);
+        if (!status) return item;
+
+        return {
+          ...item,
+          ...status,
+          ...(status.size && { size: status.size }),
+          ...(status.duration && { duration: status.duration }),
+        };
+      })
+    );
+  }, []);
+
+  const pollStatus = useCallback(async () => {
+    const activeDownloads = downloadItemsRef.current.filter(
+      (item) =>
+        item.status === 'queued' ||
+        item.status === 'downloading' ||
+        item.status === 'processing' ||
+        item.status === 'retrying'
+    );
+
+    if (activeDownloads.length === 0) return;
+
+    try {
+      const statuses = await downloadService.getDownloadStatus(
+        activeDownloads.map((item) => item.id)
       );
+      applyStatusUpdates(statuses);
+    } catch (error) {
+      console.error('Error polling download status:', error);
+    }
+  }, [applyStatusUpdates]);
 
-      if (activeDownloads.length === 0) return;
+  // Store the latest aggregate state of a playlist
+  const applyPlaylistUpdate = useCallback((playlist: PlaylistInfo) => {
+    setPlaylists((prevPlaylists) => ({ ...prevPlaylists, [playlist.id]: playlist }));
+  }, []);
 
-      try {
-        const statuses = await downloadService.getDownloadStatus(
-          activeDownloads.map((item) => item.id)
-        );
+  // Reload the playlists shown in the list, e.g. after missed events
+  const refreshPlaylists = useCallback(async () => {
+    const playlistIds = new Set(
+      downloadItemsRef.current.map((item) => item.playlistId).filter(Boolean)
+    );
+    if (playlistIds.size === 0) return;
 
+    try {
+      const allPlaylists = await downloadService.getPlaylists();
+      allPlaylists
+        .filter((playlist) => playlistIds.has(playlist.id))
+        .forEach(applyPlaylistUpdate);
+    } catch (error) {
+      console.error('Error loading playlists:', error);
+    }
+  }, [applyPlaylistUpdate]);
+
+  // Receive status updates pushed by the server
+  useEffect(() => {
+    return downloadService.subscribeToEvents({
+      onUpdate: (update) => applyStatusUpdates([update]),
+      onQueuePositions: (positions) => {
         setDownloadItems((prevItems) =>
-          prevItems.map((item) => {
-            const status = statuses.find((s) => s.id === item.id);
-            if (!status) return item;
-
-            return {
-              ...item,
-              ...status,
-              ...(status.size && { size: status.size }),
-              ...(status.duration && { duration: status.duration }),
-            };
-          })
+          prevItems.map((item) =>
+            item.status === 'queued' ? { ...item, queuePosition: positions[item.id] } : item
+          )
         );
-      } catch (error) {
-        console.error('Error polling download status:', error);
-      }
-    };
+      },
+      onPlaylistUpdate: (playlist) => {
+        // Only playlists started from this page are shown
+        if (downloadItemsRef.current.some((item) => item.playlistId === playlist.id)) {
+          applyPlaylistUpdate(playlist);
+        }
+      },
+      onResync: () => {
+        pollStatus();
+        refreshPlaylists();
+      },
+      onConnectionChange: setIsEventStreamConnected,
+    });
+  }, [applyStatusUpdates, applyPlaylistUpdate, pollStatus, refreshPlaylists]);
+
+  // Poll every 2 seconds while the event stream is unavailable
+  useEffect(() => {
+    if (isEventStreamConnected) return;
 
-    // Poll every 2 seconds
     pollingIntervalRef.current = window.setInterval(pollStatus, 2000);
 
     return () => {
@@ -59,88 +123,121 @@ const App: FC = () => {
         clearInterval(pollingIntervalRef.current);
       }
     };
-  }, [downloadItems]);
+  }, [isEventStreamConnected, pollStatus]);
 
   // Handle starting new downloads
   const handleDownloadStart = useCallback(
-    async (items: { url: string; quality: QualityOption }[]) => {
+    async (items: DownloadRequest[]) => {
       if (items.length === 0) return;
       
-      const { url, quality } = items[0];
+      // The settings are the same for every entry, only the URL and range differ
+      const { quality, format, splitChapters, loudness, sponsorBlock, video } = items[0];
       setIsDownloading(true);
 
       try {
-        // Start the download and get the response
-        const response = await downloadService.startDownload([url], quality);
+        // Start every entry with one request
+        const response = await downloadService.startDownload(
+          items.map(({ url, range }) => ({ url, range })),
+          quality,
+          format,
+          { splitChapters, loudness, sponsorBlock, video }
+        );
         
         if (!response.success) {
           throw new Error(response.message || 'Failed to start download');
         }
 
-        // Handle playlist response if present
-        if (response.playlists && response.playlists.length > 0) {
-          const playlist = response.playlists[0];
-          // Create a download item for each video in the playlist
-          const playlistItems: DownloadItem[] = playlist.videoIds.map((videoId, index) => ({
-            id: `${playlist.id}-${index}`,
-            url: `${url}?v=${videoId}`, // Reconstruct video URL if needed
-            title: `Track ${index + 1}`, // Will be updated with actual title from backend
-            status: 'downloading' as const,
-            progress: 0,
+        const playlistResponses = response.playlists || [];
+        const playlistUrls = new Set(playlistResponses.map((playlist) => playlist.url));
+        const playlistVideoIds = new Set(playlistResponses.flatMap((playlist) => playlist.videoIds));
+
+        // The ids of single videos come in the order of their entries
+        const singleIds = (response.ids || []).filter((id) => !playlistVideoIds.has(id));
+        const singleItems: DownloadItem[] = items
+          .filter((item) => !playlistUrls.has(item.url))
+          .slice(0, singleIds.length)
+          .map((item, index) => ({
+            id: singleIds[index],
+            url: item.url,
+            title: item.url.split('/').pop() || 'download',
+            status: 'downloading',
+            progress: 5,
             quality,
+            format,
+            range: item.range,
+            loudness,
+            sponsorBlock,
+            video,
+            timestamp: Date.now(),
+          }));
+
+        // Create a download item for each playlist entry, under the ids the backend uses
+        const playlists = await Promise.all(
+          playlistResponses.map((playlist) => downloadService.getPlaylist(playlist.id))
+        );
+        const playlistItems: DownloadItem[] = playlists.flatMap((playlist) =>
+          playlist.items.map((entry) => ({
+            id: entry.id,
+            url: entry.url,
+            title: entry.title,
+            status: entry.status as DownloadItem['status'],
+            progress: entry.progress,
+            quality,
+            format,
             timestamp: Date.now(),
             isPlaylistItem: true,
             playlistId: playlist.id,
-          }));
-          
-          setDownloadItems(prevItems => [...prevItems, ...playlistItems]);
+          }))
+        );
 
+        if (singleItems.length === 0 && playlistItems.length === 0) {
+          throw new Error('No valid download IDs or playlists received');
+        }
+
+        playlists.forEach(applyPlaylistUpdate);
+        setDownloadItems(prevItems => [...prevItems, ...singleItems, ...playlistItems]);
+
+        if (playlists.length === 1 && singleItems.length === 0) {
+          const [playlist] = playlists;
           toast({
-            title: 'Playlist download started',
-            description: `Processing playlist with ${playlist.videoIds.length} videos`,
+            title: playlist.kind === 'chapters' ? 'Chapter split started' : 'Playlist download started',
+            description: playlist.kind === 'chapters'
+              ? `Processing "${playlist.title}" as ${playlist.totalItems} chapters`
+              : `Processing "${playlist.title}" with ${playlist.totalItems} videos`,
             status: 'info',
             duration: 3000,
           });
-        } 
-        // Handle single video response if present
-        else if (response.ids && response.ids.length > 0) {
-          const downloadId = response.ids[0];
-          const newItem: DownloadItem = {
-            id: downloadId,
-            url,
-            title: url.split('/').pop() || 'download',
-            status: 'downloading',
-            progress: 5,
-            quality,
-            timestamp: Date.now(),
-          };
-          setDownloadItems(prevItems => [...prevItems, newItem]);
-
+        } else {
           toast({
             title: 'Download started',
-            description: 'Your download has been queued.',
+            description: singleItems.length + playlistItems.length === 1
+              ? 'Your download has been queued.'
+              : `${singleItems.length + playlistItems.length} downloads have been queued.`,
             status: 'info',
             duration: 3000,
           });
-        } else {
-          throw new Error('No valid download IDs or playlists received');
         }
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Failed to start download';
         
-        // Create an error item for the failed download
-        const errorItem: DownloadItem = {
-          id: `error-${Date.now()}`,
-          url,
-          title: url.split('/').pop() || 'download',
+        // Create an error item for each entry of the failed request
+        const errorItems: DownloadItem[] = items.map((item, index) => ({
+          id: `error-${Date.now()}-${index}`,
+          url: item.url,
+          title: item.url.split('/').pop() || 'download',
           status: 'error',
           progress: 0,
           quality,
+          format,
+          range: item.range,
+          loudness,
+          sponsorBlock,
+          video,
           timestamp: Date.now(),
           error: errorMessage,
-        };
+        }));
         
-        setDownloadItems((prevItems) => [...prevItems, errorItem]);
+        setDownloadItems((prevItems) => [...prevItems, ...errorItems]);
 
         toast({
           title: 'Error',
@@ -152,25 +249,100 @@ const App: FC = () => {
         setIsDownloading(false);
       }
     },
-    [toast]
+    [toast, applyPlaylistUpdate]
   );
 
   // Handle retry for failed downloads
   const handleRetry = useCallback(
-    (item: DownloadItem) => {
+    async (item: DownloadItem) => {
       if (!item.url) return;
-      handleDownloadStart([{ url: item.url, quality: item.quality as QualityOption }]);
+
+      // Items that never reached the server have no job to retry
+      if (item.id.startsWith('error-')) {
+        setDownloadItems((prevItems) => prevItems.filter((prevItem) => prevItem.id !== item.id));
+        handleDownloadStart([{
+          url: item.url,
+          quality: item.quality as QualityOption,
+          format: item.format || 'mp3',
+          range: item.range,
+          loudness: item.loudness,
+          sponsorBlock: item.sponsorBlock,
+          video: item.video,
+        }]);
+        return;
+      }
+
+      try {
+        await downloadService.retryDownload(item.id);
+
+        setDownloadItems((prevItems) =>
+          prevItems.map((prevItem) =>
+            prevItem.id === item.id
+              ? {
+                  ...prevItem,
+                  status: 'queued' as const,
+                  progress: 0,
+                  error: undefined,
+                  errorCode: undefined,
+                  errorMessage: undefined,
+                  retryable: undefined,
+                }
+              : prevItem
+          )
+        );
+      } catch (error) {
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to retry download',
+          status: 'error',
+          duration: 5000,
+        });
+      }
+    },
+    [handleDownloadStart, toast]
+  );
+
+  // Handle cancelling a queued or running download
+  const handleCancel = useCallback(
+    async (item: DownloadItem) => {
+      try {
+        await downloadService.cancelDownload(item.id);
+
+        setDownloadItems((prevItems) =>
+          prevItems.map((prevItem) =>
+            prevItem.id === item.id
+              ? { ...prevItem, status: 'cancelled' as const, queuePosition: undefined }
+              : prevItem
+          )
+        );
+
+        toast({
+          title: 'Download cancelled',
+          description: item.title,
+          status: 'info',
+          duration: 3000,
+        });
+      } catch (error) {
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to cancel download',
+          status: 'error',
+          duration: 5000,
+        });
+      }
     },
-    [handleDownloadStart]
+    [toast]
   );
 
   // Handle downloading a completed file
   const handleDownloadFile = useCallback(
-    async (item: DownloadItem) => {
+    (item: DownloadItem) => {
       if (!item.filePath) return;
 
       try {
-        await downloadService.downloadFile(item.id, item.title || 'download');
+        // In original-audio mode only the server knows the container
+        const extension = item.filePath.split('.').pop() || item.format || 'mp3';
+        downloadService.downloadFile(item.id, `${item.title || 'download'}.${extension}`);
 
         toast({
           title: 'Download started',
@@ -192,9 +364,19 @@ const App: FC = () => {
     [toast]
   );
 
+  // Handle downloading every completed track of a playlist as one ZIP
+  const handleDownloadPlaylist = useCallback((playlistId: string) => {
+    downloadService.downloadPlaylistArchive(playlistId);
+  }, []);
+
   // Calculate download status counts
   const activeDownloads = downloadItems.filter(
-    (item) => item.status === 'downloading' || item.status === 'converting' || item.status === 'pending'
+    (item) =>
+      item.status === 'downloading' ||
+      item.status === 'processing' ||
+      item.status === 'pending' ||
+      item.status === 'queued' ||
+      item.status === 'retrying'
   ).length;
   
   const completedDownloads = downloadItems.filter(
@@ -239,6 +421,9 @@ const App: FC = () => {
                 items={downloadItems}
                 onDownload={handleDownloadFile}
                 onRetry={handleRetry}
+                onCancel={handleCancel}
+                playlists={playlists}
+                onDownloadPlaylist={handleDownloadPlaylist}
               />
             </Box>
           </Box>
@@ -1,21 +1,81 @@
-import { Box, Text, HStack, Badge, Button, Tooltip, IconButton, Progress } from '@chakra-ui/react';
-import { DownloadIcon, RepeatIcon } from '@chakra-ui/icons';
-import type { DownloadItem } from '../types';
+import { useState } from 'react';
+import { Box, Text, HStack, Badge, Button, Tooltip, IconButton, Image, Progress } from '@chakra-ui/react';
+import {
+  ChevronUpIcon,
+  CloseIcon,
+  DownloadIcon,
+  InfoOutlineIcon,
+  RepeatIcon,
+  TriangleUpIcon,
+} from '@chakra-ui/icons';
+import { LOSSLESS_FORMATS, isVbrQuality, type DownloadItem, type MetadataMatch, type TrackTags } from '../types';
+import { downloadService } from '../services/api';
+
+// 1 -> "1st", 2 -> "2nd", 11 -> "11th", 23 -> "23rd"
+const formatOrdinal = (n: number): string => {
+  const suffixes = ['th', 'st', 'nd', 'rd'];
+  const v = n % 100;
+  return `${n}${suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]}`;
+};
+
+// 90 -> "1:30", 3723 -> "1:02:03"
+const formatTime = (seconds: number): string => {
+  const whole = Math.floor(seconds);
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  const secs = (whole % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+// -3.214 -> "-3.21 dB", 2 -> "+2.00 dB"
+const formatGain = (gain: number): string => `${gain > 0 ? '+' : ''}${gain.toFixed(2)} dB`;
+
+const METADATA_PROVIDER_LABELS: Record<MetadataMatch['provider'], string> = {
+  musicbrainz: 'MusicBrainz',
+  itunes: 'iTunes'
+};
 
 interface DownloadItemProps {
   item: DownloadItem;
   onDownload: (item: DownloadItem) => void;
   onRetry: (item: DownloadItem) => void;
+  onCancel: (item: DownloadItem) => void;
 }
 
 export const DownloadItemComponent: React.FC<DownloadItemProps> = ({ 
   item, 
   onDownload, 
-  onRetry 
+  onRetry,
+  onCancel
 }) => {
-  const isActive = item.status === 'downloading' || item.status === 'converting';
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [isDetailsOpen, setIsDetailsOpen] = useState(false);
+  const [tags, setTags] = useState<TrackTags | null>(null);
+  const [tagsError, setTagsError] = useState<string | null>(null);
+  const isActive = item.status === 'downloading' || item.status === 'processing';
+  const isQueued = item.status === 'queued';
+  const isRetrying = item.status === 'retrying';
+  const isCancelled = item.status === 'cancelled';
+  const isCancellable = isActive || isQueued || isRetrying || item.status === 'pending';
   const isCompleted = item.status === 'completed';
-  const isError = item.status === 'error';
+  // Interrupted jobs (server restarted mid-download) can be retried like failed ones
+  const isError = item.status === 'error' || item.status === 'interrupted';
+  // Retrying a private or removed video cannot help, so only offer it for other errors
+  const canRetry = isError && item.retryable !== false;
+  // Tags are only read back from MP3 files
+  const hasTrackDetails = isCompleted && !!item.filePath && !item.video && (item.format || 'mp3') === 'mp3';
+
+  const toggleDetails = () => {
+    setIsDetailsOpen((open) => !open);
+    if (tags || isDetailsOpen) return;
+
+    // Fetched once, the first time the details are opened
+    setTagsError(null);
+    downloadService
+      .getTrackTags(item.id)
+      .then(setTags)
+      .catch((error: Error) => setTagsError(error.message));
+  };
 
   return (
     <Box 
@@ -31,18 +91,34 @@ export const DownloadItemComponent: React.FC<DownloadItemProps> = ({
       }}
     >
       <Box display="flex" justifyContent="space-between" alignItems="flex-start" mb={2}>
+        {item.hasCover && (
+          <Tooltip
+            label="Cover art not embedded: this file type cannot hold one"
+            isDisabled={item.coverEmbedded !== false}
+          >
+            <Image
+              src={downloadService.getCoverUrl(item.id)}
+              alt=""
+              boxSize="48px"
+              objectFit="cover"
+              borderRadius="md"
+              mr={3}
+              flexShrink={0}
+            />
+          </Tooltip>
+        )}
         <Box flex="1" minW="0">
           <HStack spacing={2} align="center" mb={1}>
             <Text 
               fontWeight="medium" 
               isTruncated 
               fontSize="sm"
-              color={isCompleted ? 'green.600' : isError ? 'red.600' : 'blue.600'}
+              color={isCompleted ? 'green.600' : isError ? 'red.600' : isCancelled ? 'gray.500' : 'blue.600'}
             >
               {item.title}
             </Text>
             <Badge 
-              colorScheme={isCompleted ? 'green' : isError ? 'red' : 'blue'}
+              colorScheme={isCompleted ? 'green' : isError ? 'red' : isCancelled ? 'gray' : 'blue'}
               variant="subtle"
               fontSize="2xs"
               textTransform="uppercase"
@@ -52,14 +128,101 @@ export const DownloadItemComponent: React.FC<DownloadItemProps> = ({
             </Badge>
           </HStack>
           
-          {item.quality && (
+          {item.video ? (
+            <Text fontSize="xs" color="gray.500" mb={1}>
+              Video: {item.video.resolution === 'best' ? 'best quality' : `up to ${item.video.resolution}p`}
+              {` • ${item.video.container.toUpperCase()}`}
+            </Text>
+          ) : item.format === 'original' ? (
+            <Text fontSize="xs" color="gray.500" mb={1}>
+              Original audio
+              {item.audio?.codec && ` • ${item.audio.codec}`}
+              {item.audio?.bitrate && ` • ${item.audio.bitrate} kbps`}
+            </Text>
+          ) : item.format && LOSSLESS_FORMATS.includes(item.format) ? (
+            <Text fontSize="xs" color="gray.500" mb={1}>
+              Format: {item.format.toUpperCase()} (lossless)
+            </Text>
+          ) : item.quality && (
+            <Text fontSize="xs" color="gray.500" mb={1}>
+              {item.format && `Format: ${item.format.toUpperCase()} • `}
+              Quality: {isVbrQuality(item.quality) ? `${item.quality} (VBR)` : `${item.quality} kbps`}
+              {item.audio?.bitrate && ` • measured ${item.audio.bitrate} kbps`}
+            </Text>
+          )}
+
+          {item.loudness?.mode === 'normalize' && item.measuredLoudness !== undefined && (
             <Text fontSize="xs" color="gray.500" mb={1}>
-              Quality: {item.quality} kbps
+              Normalized to {item.loudness.targetLufs} LUFS (source {item.measuredLoudness.toFixed(1)} LUFS)
             </Text>
           )}
+
+          {item.replayGain && (
+            <Text fontSize="xs" color="gray.500" mb={1}>
+              ReplayGain: track {formatGain(item.replayGain.trackGain)}
+              {item.replayGain.albumGain !== undefined && `, album ${formatGain(item.replayGain.albumGain)}`}
+            </Text>
+          )}
+
+          {item.metadataMatch && (
+            <Text fontSize="xs" color="gray.500" mb={1}>
+              Tags from {METADATA_PROVIDER_LABELS[item.metadataMatch.provider]} ({Math.round(item.metadataMatch.confidence * 100)}% match)
+            </Text>
+          )}
+
+          {item.range && (
+            <Text fontSize="xs" color="gray.500" mb={1}>
+              Clip: {formatTime(item.range.start ?? 0)} – {item.range.end !== undefined ? formatTime(item.range.end) : 'end'}
+            </Text>
+          )}
+
+          {item.removedSegments && (
+            <Tooltip
+              label={item.removedSegments
+                .map((segment) => `${segment.category}: ${formatTime(segment.start)} – ${formatTime(segment.end)}`)
+                .join(', ')}
+              isDisabled={item.removedSegments.length === 0}
+            >
+              <Text fontSize="xs" color="gray.500" mb={1}>
+                {item.removedSegments.length === 0
+                  ? 'SponsorBlock: nothing to remove'
+                  : `SponsorBlock: removed ${item.removedSegments.length} segment(s), ${formatTime(
+                      item.removedSegments.reduce((total, segment) => total + segment.end - segment.start, 0)
+                    )}`}
+              </Text>
+            </Tooltip>
+          )}
         </Box>
         
         <HStack spacing={1}>
+          {isCompleted && item.filePath && (
+            <Tooltip label={isPreviewOpen ? 'Hide preview' : 'Preview'}>
+              <IconButton
+                icon={isPreviewOpen ? <ChevronUpIcon /> : <TriangleUpIcon transform="rotate(90deg)" />}
+                size="sm"
+                colorScheme="green"
+                variant="ghost"
+                aria-label={isPreviewOpen ? 'Hide preview' : 'Preview'}
+                aria-expanded={isPreviewOpen}
+                onClick={() => setIsPreviewOpen((open) => !open)}
+              />
+            </Tooltip>
+          )}
+          
+          {hasTrackDetails && (
+            <Tooltip label={isDetailsOpen ? 'Hide details' : 'Track details'}>
+              <IconButton
+                icon={<InfoOutlineIcon />}
+                size="sm"
+                colorScheme="gray"
+                variant={isDetailsOpen ? 'solid' : 'ghost'}
+                aria-label={isDetailsOpen ? 'Hide details' : 'Track details'}
+                aria-expanded={isDetailsOpen}
+                onClick={toggleDetails}
+              />
+            </Tooltip>
+          )}
+          
           {isCompleted && item.filePath && (
             <Tooltip label="Download file">
               <IconButton
@@ -73,7 +236,20 @@ export const DownloadItemComponent: React.FC<DownloadItemProps> = ({
             </Tooltip>
           )}
           
-          {isError && (
+          {isCancellable && (
+            <Tooltip label="Cancel download">
+              <IconButton
+                icon={<CloseIcon boxSize={2.5} />}
+                size="sm"
+                colorScheme="red"
+                variant="ghost"
+                aria-label="Cancel download"
+                onClick={() => onCancel(item)}
+              />
+            </Tooltip>
+          )}
+          
+          {canRetry && (
             <Tooltip label="Retry download">
               <IconButton
                 icon={<RepeatIcon />}
@@ -88,11 +264,31 @@ export const DownloadItemComponent: React.FC<DownloadItemProps> = ({
         </HStack>
       </Box>
       
+      {isQueued && (
+        <Text mt={2} fontSize="xs" color="gray.600">
+          {item.queuePosition
+            ? `Waiting for a free slot, ${formatOrdinal(item.queuePosition)} in line`
+            : 'Waiting for a free slot...'}
+        </Text>
+      )}
+      
+      {isRetrying && (
+        <Box mt={2} fontSize="xs" color="orange.600">
+          <Text>
+            Retrying{item.nextRetryAt ? ` at ${new Date(item.nextRetryAt).toLocaleTimeString()}` : ''}
+            {item.attempts && item.maxAttempts ? ` (attempt ${item.attempts + 1} of ${item.maxAttempts})` : ''}
+          </Text>
+          {(item.errorMessage || item.error) && (
+            <Text color="gray.500">Last error: {item.errorMessage || item.error}</Text>
+          )}
+        </Box>
+      )}
+      
       {isActive && (
         <Box mt={3}>
           <HStack justify="space-between" mb={1} fontSize="xs">
             <Text color="gray.600">
-              {item.status === 'converting' ? 'Converting' : 'Downloading'}... {Math.round(item.progress)}%
+              {item.status === 'processing' ? 'Processing' : 'Downloading'}... {Math.round(item.progress)}%
             </Text>
             {item.size && (
               <Text color="gray.600">
@@ -103,7 +299,7 @@ export const DownloadItemComponent: React.FC<DownloadItemProps> = ({
           <Progress 
             value={item.progress} 
             size="sm" 
-            colorScheme={item.status === 'converting' ? 'purple' : 'blue'}
+            colorScheme={item.status === 'processing' ? 'purple' : 'blue'}
             borderRadius="full"
             isIndeterminate={item.progress === 0}
           />
@@ -137,7 +333,57 @@ export const DownloadItemComponent: React.FC<DownloadItemProps> = ({
         </HStack>
       )}
       
-      {isError && item.error && (
+      {isCompleted && isPreviewOpen && (
+        // Native controls give play/pause, seeking and volume; nothing is
+        // fetched until the player is opened
+        <Box
+          as={item.video ? 'video' : 'audio'}
+          mt={3}
+          w="100%"
+          controls
+          autoPlay
+          preload="metadata"
+          src={downloadService.getStreamUrl(item.id)}
+        />
+      )}
+      
+      {hasTrackDetails && isDetailsOpen && (
+        <Box mt={3} p={2} bg="gray.50" borderRadius="md" fontSize="xs">
+          {tagsError ? (
+            <Text color="red.500">{tagsError}</Text>
+          ) : !tags ? (
+            <Text color="gray.500">Loading track details…</Text>
+          ) : (
+            <>
+              <Text>
+                {tags.artist || 'Unknown artist'} – {tags.title || 'Untitled'}
+              </Text>
+              <Text color="gray.500">
+                {[tags.album, tags.trackNumber && `Track ${tags.trackNumber}`, tags.year, tags.genre]
+                  .filter(Boolean)
+                  .join(' • ')}
+              </Text>
+              {tags.chapters.length > 0 && (
+                <Box mt={2}>
+                  <Text fontWeight="semibold" mb={1}>
+                    Chapters
+                  </Text>
+                  {tags.chapters.map((chapter, index) => (
+                    <HStack key={index} spacing={3}>
+                      <Text color="gray.500" fontFamily="mono" minW="56px">
+                        {formatTime(chapter.startTime)}
+                      </Text>
+                      <Text noOfLines={1}>{chapter.title}</Text>
+                    </HStack>
+                  ))}
+                </Box>
+              )}
+            </>
+          )}
+        </Box>
+      )}
+      
+      {isError && (item.errorMessage || item.error) && (
         <Box 
           mt={2} 
           p={2} 
@@ -147,18 +393,25 @@ export const DownloadItemComponent: React.FC<DownloadItemProps> = ({
           borderColor="red.400"
         >
           <Text fontSize="sm" color="red.600">
-            {item.error}
+            {item.errorMessage || item.error}
           </Text>
-          <Button 
-            size="xs" 
-            mt={2} 
-            colorScheme="red" 
-            variant="outline"
-            leftIcon={<RepeatIcon />}
-            onClick={() => onRetry(item)}
-          >
-            Retry
-          </Button>
+          {item.errorMessage && item.error && (
+            <Text fontSize="xs" color="gray.500" mt={1} noOfLines={2} title={item.error}>
+              {item.error}
+            </Text>
+          )}
+          {canRetry && (
+            <Button 
+              size="xs" 
+              mt={2} 
+              colorScheme="red" 
+              variant="outline"
+              leftIcon={<RepeatIcon />}
+              onClick={() => onRetry(item)}
+            >
+              Retry
+            </Button>
+          )}
         </Box>
       )}
     </Box>
@@ -1,17 +1,53 @@
-import { VStack, Text } from '@chakra-ui/react';
+import { VStack, Text, Box, HStack, Button, Progress } from '@chakra-ui/react';
+import { DownloadIcon } from '@chakra-ui/icons';
 import { DownloadItemComponent } from './DownloadItem';
-import type { DownloadItem } from '../types';
+import type { DownloadItem, PlaylistInfo } from '../types';
 
 interface DownloadListProps {
   items: DownloadItem[];
   onDownload: (item: DownloadItem) => void;
   onRetry: (item: DownloadItem) => void;
+  onCancel: (item: DownloadItem) => void;
+  playlists: Record<string, PlaylistInfo>;
+  onDownloadPlaylist: (playlistId: string) => void;
 }
 
+// Consecutive run of items: a whole playlist, or a single download
+interface ItemGroup {
+  playlistId?: string;
+  items: DownloadItem[];
+}
+
+// Keeps the list order, but collects the items of a playlist under its first item
+const groupItems = (items: DownloadItem[]): ItemGroup[] => {
+  const groups: ItemGroup[] = [];
+  const playlistGroups = new Map<string, ItemGroup>();
+
+  items.forEach((item) => {
+    if (!item.playlistId) {
+      groups.push({ items: [item] });
+      return;
+    }
+
+    let group = playlistGroups.get(item.playlistId);
+    if (!group) {
+      group = { playlistId: item.playlistId, items: [] };
+      playlistGroups.set(item.playlistId, group);
+      groups.push(group);
+    }
+    group.items.push(item);
+  });
+
+  return groups;
+};
+
 export const DownloadList: React.FC<DownloadListProps> = ({ 
   items, 
   onDownload, 
-  onRetry 
+  onRetry,
+  onCancel,
+  playlists,
+  onDownloadPlaylist
 }) => {
   if (items.length === 0) {
     return (
@@ -21,16 +57,70 @@ export const DownloadList: React.FC<DownloadListProps> = ({
     );
   }
 
+  const renderItem = (item: DownloadItem) => (
+    <DownloadItemComponent
+      key={item.id}
+      item={item}
+      onDownload={onDownload}
+      onRetry={onRetry}
+      onCancel={onCancel}
+    />
+  );
+
   return (
     <VStack spacing={4} align="stretch">
-      {items.map((item) => (
-        <DownloadItemComponent
-          key={item.id}
-          item={item}
-          onDownload={onDownload}
-          onRetry={onRetry}
-        />
-      ))}
+      {groupItems(items).map((group) => {
+        if (!group.playlistId) {
+          return renderItem(group.items[0]);
+        }
+
+        const playlistId = group.playlistId;
+        const playlist = playlists[playlistId];
+        // Fall back to the items on the page until the server reports the playlist
+        const completed = playlist?.completedItems
+          ?? group.items.filter((item) => item.status === 'completed').length;
+        const total = playlist?.totalItems ?? group.items.length;
+        const isRunning = playlist?.status === 'pending' || playlist?.status === 'processing';
+        const isChapters = playlist?.kind === 'chapters';
+
+        return (
+          <Box key={playlistId} borderWidth="1px" borderRadius="md" p={3} bg="gray.50">
+            <HStack justify="space-between" mb={3}>
+              <Box>
+                <Text fontWeight="semibold" fontSize="sm" noOfLines={1}>
+                  {playlist?.title || (isChapters ? 'Chapters' : 'Playlist')}
+                </Text>
+                <Text fontSize="xs" color={playlist?.status === 'error' ? 'red.500' : 'gray.500'}>
+                  {completed} of {total} {isChapters ? 'chapters' : 'tracks'} completed
+                  {playlist?.error ? ` • ${playlist.error}` : ''}
+                </Text>
+              </Box>
+              <Button
+                size="sm"
+                colorScheme="blue"
+                variant="outline"
+                leftIcon={<DownloadIcon />}
+                isDisabled={completed === 0}
+                onClick={() => onDownloadPlaylist(playlistId)}
+              >
+                Download all as ZIP
+              </Button>
+            </HStack>
+            {isRunning && (
+              <Progress
+                value={playlist.progress}
+                size="xs"
+                colorScheme="blue"
+                borderRadius="full"
+                mb={3}
+              />
+            )}
+            <VStack spacing={3} align="stretch">
+              {group.items.map(renderItem)}
+            </VStack>
+          </Box>
+        );
+      })}
     </VStack>
   );
 };
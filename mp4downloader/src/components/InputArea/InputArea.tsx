@@ -2,8 +2,17 @@ import React, { useState, useCallback } from 'react';
 import { 
   Box, 
   Button, 
+  ButtonGroup,
   Select, 
+  Checkbox,
+  CheckboxGroup,
+  NumberInput,
+  NumberInputField,
+  NumberInputStepper,
+  NumberIncrementStepper,
+  NumberDecrementStepper,
   Textarea, 
+  Input,
   VStack, 
   Text, 
   useToast,
@@ -12,41 +21,140 @@ import {
   Tooltip
 } from '@chakra-ui/react';
 import { AddIcon, DeleteIcon } from '@chakra-ui/icons';
-import type { QualityOption } from '../../types';
+import {
+  CBR_QUALITIES,
+  DEFAULT_SPONSORBLOCK_CATEGORIES,
+  LOSSLESS_FORMATS,
+  VBR_QUALITIES,
+  VIDEO_RESOLUTIONS,
+  type AudioFormat,
+  type DownloadMode,
+  type DownloadRequest,
+  type LoudnessMode,
+  type QualityOption,
+  type SponsorBlockCategory,
+  type TimeRange,
+  type VideoContainer,
+  type VideoResolution,
+} from '../../types';
+
+const FORMAT_OPTIONS: { value: AudioFormat; label: string }[] = [
+  { value: 'mp3', label: 'MP3' },
+  { value: 'm4a', label: 'M4A (Apple)' },
+  { value: 'aac', label: 'AAC' },
+  { value: 'opus', label: 'Opus' },
+  { value: 'ogg', label: 'OGG Vorbis' },
+  { value: 'flac', label: 'FLAC (veszteségmentes)' },
+  { value: 'wav', label: 'WAV (veszteségmentes)' },
+  { value: 'original', label: 'Eredeti hang (újrakódolás nélkül)' },
+];
+
+const CONTAINER_OPTIONS: { value: VideoContainer; label: string }[] = [
+  { value: 'mp4', label: 'MP4 (H.264 + AAC)' },
+  { value: 'webm', label: 'WebM (VP9 + Opus)' },
+  { value: 'mkv', label: 'MKV (bármilyen kodek)' },
+];
+
+const SPONSORBLOCK_OPTIONS: { value: SponsorBlockCategory; label: string }[] = [
+  { value: 'music_offtopic', label: 'Nem zenei rész' },
+  { value: 'intro', label: 'Intró' },
+  { value: 'outro', label: 'Outró' },
+  { value: 'sponsor', label: 'Szponzor' },
+  { value: 'selfpromo', label: 'Önreklám' },
+  { value: 'interaction', label: 'Feliratkozásra kérés' },
+  { value: 'preview', label: 'Előzetes' },
+  { value: 'filler', label: 'Töltelék' },
+];
+
+// A URL field with its optional time range, as typed
+interface UrlEntry {
+  url: string;
+  start: string;
+  end: string;
+}
+
+const EMPTY_ENTRY: UrlEntry = { url: '', start: '', end: '' };
+
+// Same grammar as the backend's parseTimestamp
+const CLOCK_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/;
+const UNITS_PATTERN = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+(?:\.\d+)?)s?)?$/i;
+
+// Seconds for "90", "1:30", "1:02:03", "90s" or "1m30s"; null if the text
+// is none of these
+const parseTime = (value: string): number | null => {
+  const clock = CLOCK_PATTERN.exec(value);
+  if (clock) {
+    const [, hours = '0', minutes, seconds] = clock;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  }
+
+  const units = UNITS_PATTERN.exec(value);
+  if (units && (units[1] || units[2] || units[3])) {
+    const [, hours = '0', minutes = '0', seconds = '0'] = units;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  }
+
+  return null;
+};
+
+// Range of an entry: undefined when both fields are empty, null when invalid
+const parseRange = (entry: UrlEntry): TimeRange | undefined | null => {
+  const start = entry.start.trim() ? parseTime(entry.start.trim()) : undefined;
+  const end = entry.end.trim() ? parseTime(entry.end.trim()) : undefined;
+
+  if (start === null || end === null) return null;
+  if (start !== undefined && end !== undefined && end <= start) return null;
+  if (start === undefined && end === undefined) return undefined;
+  return { start, end };
+};
 
 interface InputAreaProps {
-  onDownloadStart: (items: { url: string; quality: QualityOption }[]) => void;
+  onDownloadStart: (items: DownloadRequest[]) => void;
   isDownloading: boolean;
 }
 
 const InputArea: React.FC<InputAreaProps> = ({ onDownloadStart, isDownloading }) => {
-  const [urls, setUrls] = useState<string[]>(['']);
+  const [entries, setEntries] = useState<UrlEntry[]>([EMPTY_ENTRY]);
   const [quality, setQuality] = useState<QualityOption>('192');
+  const [format, setFormat] = useState<AudioFormat>('mp3');
+  const [mode, setMode] = useState<DownloadMode>('audio');
+  const [resolution, setResolution] = useState<VideoResolution>('1080');
+  const [container, setContainer] = useState<VideoContainer>('mp4');
+  const [splitChapters, setSplitChapters] = useState(false);
+  const [loudnessMode, setLoudnessMode] = useState<LoudnessMode>('off');
+  const [targetLufs, setTargetLufs] = useState('-14');
+  const [removeSegments, setRemoveSegments] = useState(false);
+  const [sponsorBlockCategories, setSponsorBlockCategories] =
+    useState<SponsorBlockCategory[]>(DEFAULT_SPONSORBLOCK_CATEGORIES);
+  const isLossless = LOSSLESS_FORMATS.includes(format);
+  // The source stream is kept as is, so there is no bitrate to choose
+  const hasFixedBitrate = isLossless || format === 'original';
   const toast = useToast();
 
-  const handleUrlChange = (index: number, value: string) => {
-    const newUrls = [...urls];
-    newUrls[index] = value;
-    setUrls(newUrls);
+  const handleEntryChange = (index: number, field: keyof UrlEntry, value: string) => {
+    const newEntries = [...entries];
+    newEntries[index] = { ...newEntries[index], [field]: value };
+    setEntries(newEntries);
   };
 
   const addUrlField = () => {
-    setUrls([...urls, '']);
+    setEntries([...entries, EMPTY_ENTRY]);
   };
 
   const removeUrlField = (index: number) => {
-    if (urls.length === 1) {
+    if (entries.length === 1) {
       // Don't remove the last field, just clear it
-      setUrls(['']);
+      setEntries([EMPTY_ENTRY]);
     } else {
-      const newUrls = urls.filter((_, i) => i !== index);
-      setUrls(newUrls);
+      const newEntries = entries.filter((_, i) => i !== index);
+      setEntries(newEntries);
     }
   };
 
   const handleSubmit = useCallback(async () => {
     // Filter out empty URLs
-    const validUrls = urls.filter(url => url.trim() !== '');
+    const validEntries = entries.filter(entry => entry.url.trim() !== '');
+    const validUrls = validEntries.map(entry => entry.url);
     
     if (validUrls.length === 0) {
       toast({
@@ -74,9 +182,69 @@ const InputArea: React.FC<InputAreaProps> = ({ onDownloadStart, isDownloading })
       return;
     }
 
+    if (validEntries.some(entry => parseRange(entry) === null)) {
+      toast({
+        title: 'Érvénytelen időtartomány',
+        description: 'Az időpontokat pl. 90, 1:30, 1:02:03 vagy 1m30s alakban add meg, a vége legyen a kezdés után!',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+      return;
+    }
+
+    const target = Number(targetLufs);
+    if (mode === 'audio' && loudnessMode === 'normalize' && (!Number.isFinite(target) || target < -70 || target > -5)) {
+      toast({
+        title: 'Hiba',
+        description: 'A cél hangerő -70 és -5 LUFS között lehet!',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+      return;
+    }
+
+    if (splitChapters && validEntries.some(entry => parseRange(entry) !== undefined)) {
+      toast({
+        title: 'Hiba',
+        description: 'Fejezetekre bontásnál nem adható meg időtartomány!',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+      return;
+    }
+
     // Start download process
-    onDownloadStart(validUrls.map(url => ({ url, quality })));
-  }, [urls, quality, onDownloadStart, toast]);
+    onDownloadStart(validEntries.map(entry => ({
+      url: entry.url,
+      quality,
+      format,
+      range: parseRange(entry) ?? undefined,
+      splitChapters,
+      loudness: mode === 'video' || loudnessMode === 'off' ? undefined : {
+        mode: loudnessMode,
+        ...(loudnessMode === 'normalize' && { targetLufs: Number(targetLufs) }),
+      },
+      sponsorBlock: removeSegments ? sponsorBlockCategories : undefined,
+      video: mode === 'video' ? { resolution, container } : undefined,
+    })));
+  }, [
+    entries,
+    quality,
+    format,
+    mode,
+    resolution,
+    container,
+    splitChapters,
+    loudnessMode,
+    targetLufs,
+    removeSegments,
+    sponsorBlockCategories,
+    onDownloadStart,
+    toast,
+  ]);
 
   return (
     <Box width="100%" maxW="800px" mx="auto" p={4}>
@@ -86,17 +254,35 @@ const InputArea: React.FC<InputAreaProps> = ({ onDownloadStart, isDownloading })
         </Text>
         
         <VStack spacing={2} align="stretch">
-          {urls.map((url, index) => (
+          {entries.map((entry, index) => (
             <HStack key={index} spacing={2}>
               <Textarea
-                value={url}
-                onChange={(e) => handleUrlChange(index, e.target.value)}
+                value={entry.url}
+                onChange={(e) => handleEntryChange(index, 'url', e.target.value)}
                 placeholder="Illeszd be a YouTube videó vagy lejátszási lista linkjét"
                 size="md"
                 isDisabled={isDownloading}
                 _disabled={{ opacity: 0.7, cursor: 'not-allowed' }}
               />
-              {urls.length > 1 && (
+              <VStack spacing={1} width="110px" flexShrink={0}>
+                <Input
+                  value={entry.start}
+                  onChange={(e) => handleEntryChange(index, 'start', e.target.value)}
+                  placeholder="Kezdés (1:30)"
+                  size="sm"
+                  aria-label="Kezdés"
+                  isDisabled={isDownloading}
+                />
+                <Input
+                  value={entry.end}
+                  onChange={(e) => handleEntryChange(index, 'end', e.target.value)}
+                  placeholder="Vége (3:45)"
+                  size="sm"
+                  aria-label="Vége"
+                  isDisabled={isDownloading}
+                />
+              </VStack>
+              {entries.length > 1 && (
                 <IconButton
                   aria-label="Törlés"
                   icon={<DeleteIcon />}
@@ -121,28 +307,202 @@ const InputArea: React.FC<InputAreaProps> = ({ onDownloadStart, isDownloading })
             </Button>
             
             <HStack>
+              <ButtonGroup size="sm" isAttached variant="outline" mr={2}>
+                <Button
+                  isActive={mode === 'audio'}
+                  onClick={() => setMode('audio')}
+                  isDisabled={isDownloading}
+                >
+                  Hang
+                </Button>
+                <Button
+                  isActive={mode === 'video'}
+                  onClick={() => setMode('video')}
+                  isDisabled={isDownloading}
+                >
+                  Videó
+                </Button>
+              </ButtonGroup>
+              {mode === 'audio' ? (
+                <>
+                  <Text fontSize="sm" mr={2}>
+                    Formátum:
+                  </Text>
+                  <Select
+                    value={format}
+                    onChange={(e) => {
+                      const newFormat = e.target.value as AudioFormat;
+                      setFormat(newFormat);
+                      if (newFormat === 'original' && loudnessMode === 'normalize') {
+                        setLoudnessMode('replaygain');
+                      }
+                    }}
+                    width="auto"
+                    size="sm"
+                    isDisabled={isDownloading}
+                  >
+                    {FORMAT_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </Select>
+                  <Text fontSize="sm" mx={2}>
+                    Minőség:
+                  </Text>
+                  <Select
+                    value={quality}
+                    onChange={(e) => setQuality(e.target.value as QualityOption)}
+                    width="auto"
+                    size="sm"
+                    isDisabled={isDownloading || hasFixedBitrate}
+                    title={
+                      isLossless
+                        ? 'Veszteségmentes formátumnál nincs bitráta'
+                        : format === 'original'
+                          ? 'Az eredeti hang bitrátája marad'
+                          : undefined
+                    }
+                  >
+                    <optgroup label="Állandó bitráta (CBR)">
+                      {CBR_QUALITIES.map((bitrate) => (
+                        <option key={bitrate} value={bitrate}>
+                          {bitrate} kbps
+                        </option>
+                      ))}
+                    </optgroup>
+                    <optgroup label="Változó bitráta (VBR)">
+                      {Object.entries(VBR_QUALITIES).map(([level, bitrate]) => (
+                        <option key={level} value={level}>
+                          {level} (~{bitrate} kbps)
+                        </option>
+                      ))}
+                    </optgroup>
+                  </Select>
+                </>
+              ) : (
+                <>
+                  <Text fontSize="sm" mr={2}>
+                    Felbontás:
+                  </Text>
+                  <Select
+                    value={resolution}
+                    onChange={(e) => setResolution(e.target.value as VideoResolution)}
+                    width="auto"
+                    size="sm"
+                    isDisabled={isDownloading}
+                  >
+                    {VIDEO_RESOLUTIONS.map((option) => (
+                      <option key={option} value={option}>
+                        {option === 'best' ? 'Legjobb' : `${option}p`}
+                      </option>
+                    ))}
+                  </Select>
+                  <Text fontSize="sm" mx={2}>
+                    Konténer:
+                  </Text>
+                  <Select
+                    value={container}
+                    onChange={(e) => setContainer(e.target.value as VideoContainer)}
+                    width="auto"
+                    size="sm"
+                    isDisabled={isDownloading}
+                  >
+                    {CONTAINER_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </Select>
+                </>
+              )}
+              <Checkbox
+                isChecked={splitChapters}
+                onChange={(e) => setSplitChapters(e.target.checked)}
+                size="sm"
+                ml={2}
+                isDisabled={isDownloading}
+              >
+                Fejezetenként külön fájlba
+              </Checkbox>
+            </HStack>
+          </HStack>
+
+          {/* Videos keep their original sound */}
+          {mode === 'audio' && (
+            <HStack justify="flex-end">
               <Text fontSize="sm" mr={2}>
-                Minőség:
+                Hangerő:
               </Text>
               <Select
-                value={quality}
-                onChange={(e) => setQuality(e.target.value as QualityOption)}
+                value={loudnessMode}
+                onChange={(e) => setLoudnessMode(e.target.value as LoudnessMode)}
                 width="auto"
                 size="sm"
                 isDisabled={isDownloading}
               >
-                <option value="128">128 kbps</option>
-                <option value="192">192 kbps</option>
-                <option value="256">256 kbps</option>
-                <option value="320">320 kbps</option>
+                <option value="off">Eredeti hangerő</option>
+                {/* Normalizing re-encodes, which the original audio mode avoids */}
+                <option value="normalize" disabled={format === 'original'}>
+                  Normalizálás (EBU R128)
+                </option>
+                <option value="replaygain">ReplayGain címkék</option>
               </Select>
+              {loudnessMode === 'normalize' && (
+                <>
+                  <Text fontSize="sm" mx={2}>
+                    Cél (LUFS):
+                  </Text>
+                  <NumberInput
+                    value={targetLufs}
+                    onChange={(value) => setTargetLufs(value)}
+                    min={-70}
+                    max={-5}
+                    step={1}
+                    size="sm"
+                    width="90px"
+                    isDisabled={isDownloading}
+                  >
+                    <NumberInputField />
+                    <NumberInputStepper>
+                      <NumberIncrementStepper />
+                      <NumberDecrementStepper />
+                    </NumberInputStepper>
+                  </NumberInput>
+                </>
+              )}
             </HStack>
+          )}
+
+          <HStack justify="flex-end" wrap="wrap">
+            <Checkbox
+              isChecked={removeSegments}
+              onChange={(e) => setRemoveSegments(e.target.checked)}
+              size="sm"
+              isDisabled={isDownloading}
+            >
+              Nem zenei részek kivágása (SponsorBlock)
+            </Checkbox>
+            {removeSegments && (
+              <CheckboxGroup
+                value={sponsorBlockCategories}
+                onChange={(value) => setSponsorBlockCategories(value as SponsorBlockCategory[])}
+                size="sm"
+                isDisabled={isDownloading}
+              >
+                {SPONSORBLOCK_OPTIONS.map((option) => (
+                  <Checkbox key={option.value} value={option.value} ml={2}>
+                    {option.label}
+                  </Checkbox>
+                ))}
+              </CheckboxGroup>
+            )}
           </HStack>
         </VStack>
         
         <Tooltip 
-          label={urls.some(url => url.trim() !== '') ? '' : 'Kérjük adj meg legalább egy YouTube linket!'}
-          isDisabled={urls.some(url => url.trim() !== '')}
+          label={entries.some(entry => entry.url.trim() !== '') ? '' : 'Kérjük adj meg legalább egy YouTube linket!'}
+          isDisabled={entries.some(entry => entry.url.trim() !== '')}
         >
           <Button
             colorScheme="blue"
@@ -150,7 +510,7 @@ const InputArea: React.FC<InputAreaProps> = ({ onDownloadStart, isDownloading })
             onClick={handleSubmit}
             isLoading={isDownloading}
             loadingText="Feldolgozás..."
-            isDisabled={!urls.some(url => url.trim() !== '')}
+            isDisabled={!entries.some(entry => entry.url.trim() !== '')}
             width="100%"
             mt={4}
           >
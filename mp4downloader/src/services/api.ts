@@ -1,5 +1,16 @@
 import axios from 'axios';
-import { type DownloadProgress, type QualityOption, type PlaylistInfo } from '../types';
+import {
+  isVbrQuality,
+  type AudioFormat,
+  type DownloadProgress,
+  type QualityOption,
+  type PlaylistInfo,
+  type LoudnessSettings,
+  type SponsorBlockCategory,
+  type VideoSettings,
+  type TimeRange,
+  type TrackTags,
+} from '../types';
 
 // Base URL for the API - points to the local backend server
 const API_BASE_URL = 'http://localhost:3001/api';
@@ -52,18 +63,35 @@ api.interceptors.response.use(
   }
 );
 
+// One page of the /downloads/status response
+interface StatusPage {
+  items: Array<DownloadProgress | { id: string; error: string }>;
+  nextCursor: string | null;
+  total: number;
+}
+
 // Real implementation of download service
 export const downloadService = {
   // Start download and conversion process
+  // Every entry becomes a job (or a playlist of jobs) with the same settings
   async startDownload(
-    urls: string[],
-    quality: QualityOption
+    entries: Array<{ url: string; range?: TimeRange }>,
+    quality: QualityOption,
+    format: AudioFormat = 'mp3',
+    options: {
+      splitChapters?: boolean;
+      loudness?: LoudnessSettings;
+      sponsorBlock?: SponsorBlockCategory[];
+      video?: VideoSettings;
+    } = {}
   ): Promise<{ 
     success: boolean; 
     message: string; 
     ids?: string[];
     playlists?: Array<{
+      type: 'playlist' | 'chapters';
       id: string;
+      title: string;
       url: string;
       videoIds: string[];
       status: string;
@@ -71,11 +99,25 @@ export const downloadService = {
     }>;
   }> {
     try {
-      console.log(`Starting download for ${urls.length} URLs with quality ${quality}kbps`);
+      console.log(`Starting download for ${entries.length} URLs as ${format} with quality ${quality}`);
       
       const response = await api.post('/downloads/start', {
-        urls,
-        quality: parseInt(quality, 10),
+        // A range turns its URL into { url, start, end }
+        urls: entries.map(({ url, range }) => (range ? { url, ...range } : url)),
+        // VBR levels are sent as "V0".."V9", bitrates as numbers
+        quality: isVbrQuality(quality) ? quality : parseInt(quality, 10),
+        format,
+        ...(options.splitChapters && { splitChapters: true }),
+        ...(options.loudness && options.loudness.mode !== 'off' && {
+          loudness: options.loudness.mode,
+          targetLufs: options.loudness.targetLufs,
+        }),
+        ...(options.sponsorBlock?.length && { sponsorBlock: options.sponsorBlock }),
+        ...(options.video && {
+          mode: 'video',
+          resolution: options.video.resolution,
+          container: options.video.container,
+        }),
       });
       
       if (!response.data || (!response.data.downloadIds && !response.data.playlists)) {
@@ -105,18 +147,27 @@ export const downloadService = {
     if (!ids.length) return [];
     
     try {
-      const response = await api.get<Array<DownloadProgress | { id: string; error: string }>>('/downloads/status', {
-        params: { ids: ids.join(',') },
-        validateStatus: (status) => status < 500 // Don't throw for 4xx errors
-      });
-      
-      if (!Array.isArray(response.data)) {
-        console.error('Invalid response format from /downloads/status:', response.data);
-        return [];
-      }
+      const items: Array<DownloadProgress | { id: string; error: string }> = [];
+      let cursor: string | null = null;
+
+      // Follow the cursor until every requested item has been returned
+      do {
+        const response: { data: StatusPage } = await api.get<StatusPage>('/downloads/status', {
+          params: { ids: ids.join(','), limit: 500, ...(cursor && { cursor }) },
+          validateStatus: (status) => status < 500 // Don't throw for 4xx errors
+        });
+
+        if (!Array.isArray(response.data?.items)) {
+          console.error('Invalid response format from /downloads/status:', response.data);
+          return [];
+        }
+
+        items.push(...response.data.items);
+        cursor = response.data.nextCursor;
+      } while (cursor);
       
       // Map the response to ensure it matches the DownloadProgress type
-      return response.data.map((item) => {
+      return items.map((item) => {
         if ('error' in item) {
           // Handle error case
           return {
@@ -143,82 +194,164 @@ export const downloadService = {
     }
   },
 
-  // Download a completed file
-  async downloadFile(id: string, filename: string): Promise<void> {
-    let url: string | null = null;
-    let link: HTMLAnchorElement | null = null;
-    
+  // Get every playlist with its aggregate progress
+  async getPlaylists(): Promise<PlaylistInfo[]> {
+    const response = await api.get<{ items: PlaylistInfo[] }>('/playlists');
+    return response.data.items;
+  },
+
+  // Get a playlist with the state of each of its entries
+  async getPlaylist(id: string): Promise<PlaylistInfo> {
     try {
-      // Use the new file download endpoint with responseType 'blob' to handle binary data
-      const response = await axios({
-        method: 'GET',
-        url: `${API_BASE_URL}/downloads/file/${id}`,
-        responseType: 'blob',
-        timeout: 30000, // 30 second timeout for downloads
-      });
+      const response = await api.get<PlaylistInfo>(`/playlists/${encodeURIComponent(id)}`);
+      return response.data;
+    } catch (error) {
+      let errorMessage = 'Failed to load playlist';
+      if (axios.isAxiosError(error) && error.response?.data?.error) {
+        errorMessage = error.response.data.error;
+      }
+
+      throw new Error(errorMessage);
+    }
+  },
 
-      if (!response.data) {
-        throw new Error('No data received from server');
+  // Tags of a finished MP3, including its chapter markers
+  async getTrackTags(id: string): Promise<TrackTags> {
+    try {
+      const response = await api.get<{ id: string; tags: TrackTags }>(
+        `/downloads/${encodeURIComponent(id)}/tags`
+      );
+      return response.data.tags;
+    } catch (error) {
+      let errorMessage = 'Failed to load track details';
+      if (axios.isAxiosError(error) && error.response?.data?.error) {
+        errorMessage = error.response.data.error;
       }
-      
-      // Get the content disposition header to extract the filename if available
-      const contentDisposition = response.headers['content-disposition'];
-      let downloadFilename = filename;
-      
-      if (contentDisposition) {
-        const filenameMatch = contentDisposition.match(/filename[^;=\n]*=((['"]).*?\2|[^;\n]*)/);
-        if (filenameMatch && filenameMatch[1]) {
-          downloadFilename = filenameMatch[1].replace(/['"]/g, '');
-        }
+
+      throw new Error(errorMessage);
+    }
+  },
+
+  // Subscribe to job updates pushed by the server over Server-Sent Events.
+  // EventSource reconnects on its own and sends Last-Event-ID, so missed events
+  // are replayed; onResync is called when the server can no longer replay them.
+  // Returns a function that closes the stream.
+  subscribeToEvents(handlers: {
+    onUpdate: (update: DownloadProgress) => void;
+    onQueuePositions: (positions: Record<string, number>) => void;
+    onPlaylistUpdate: (playlist: PlaylistInfo) => void;
+    onResync: () => void;
+    onConnectionChange: (connected: boolean) => void;
+  }): () => void {
+    if (typeof EventSource === 'undefined') {
+      handlers.onConnectionChange(false);
+      return () => {};
+    }
+
+    const source = new EventSource(`${API_BASE_URL}/downloads/events`);
+
+    source.onopen = () => handlers.onConnectionChange(true);
+    source.onerror = () => {
+      console.warn('[API] Event stream disconnected, falling back to polling until it reconnects');
+      handlers.onConnectionChange(false);
+    };
+
+    source.addEventListener('download', (event) => {
+      try {
+        const { download } = JSON.parse((event as MessageEvent).data);
+        handlers.onUpdate(download);
+      } catch (error) {
+        console.error('Invalid download event:', error);
       }
-      
-      // Ensure the filename has the .mp3 extension
-      if (!downloadFilename.toLowerCase().endsWith('.mp3')) {
-        downloadFilename = `${downloadFilename}.mp3`;
+    });
+
+    source.addEventListener('queue', (event) => {
+      try {
+        const { positions } = JSON.parse((event as MessageEvent).data);
+        handlers.onQueuePositions(positions);
+      } catch (error) {
+        console.error('Invalid queue event:', error);
       }
-      
-      // Create a blob URL for the downloaded file
-      const blob = new Blob([response.data], { type: response.headers['content-type'] || 'audio/mpeg' });
-      url = window.URL.createObjectURL(blob);
-      
-      // Create and trigger the download
-      link = document.createElement('a');
-      link.href = url;
-      link.download = downloadFilename;
-      document.body.appendChild(link);
-      link.click();
-      
-      // Log successful download
-      console.log(`Successfully downloaded file: ${downloadFilename}`);
+    });
+
+    source.addEventListener('playlist', (event) => {
+      try {
+        const { playlist } = JSON.parse((event as MessageEvent).data);
+        handlers.onPlaylistUpdate(playlist);
+      } catch (error) {
+        console.error('Invalid playlist event:', error);
+      }
+    });
+
+    source.addEventListener('resync', () => handlers.onResync());
+
+    return () => source.close();
+  },
+
+  // Retry a failed download on the server, keeping its id
+  async retryDownload(id: string): Promise<void> {
+    try {
+      await api.post(`/downloads/${id}/retry`);
     } catch (error) {
-      console.error('Error downloading file:', error);
-      
-      // Provide a more user-friendly error message
-      let errorMessage = 'Failed to download file';
-      
-      if (axios.isAxiosError(error)) {
-        if (error.code === 'ECONNABORTED') {
-          errorMessage = 'Download timed out. Please try again.';
-        } else if (error.response?.status === 404) {
-          errorMessage = 'File not found. It may have been deleted or expired.';
-        } else if (error.response?.status === 403) {
-          errorMessage = 'You do not have permission to download this file.';
-        } else if (error.response?.data?.error) {
-          errorMessage = error.response.data.error;
-        }
+      console.error('Error retrying download:', error);
+
+      let errorMessage = 'Failed to retry download';
+      if (axios.isAxiosError(error) && error.response?.data?.error) {
+        errorMessage = error.response.data.error;
       }
-      
+
       throw new Error(errorMessage);
-    } finally {
-      // Clean up in case of success or error
-      if (link) {
-        link.remove();
-      }
-      if (url) {
-        window.URL.revokeObjectURL(url);
+    }
+  },
+
+  // Cancel a queued or running download
+  async cancelDownload(id: string): Promise<void> {
+    try {
+      await api.delete(`/downloads/${id}`);
+    } catch (error) {
+      console.error('Error cancelling download:', error);
+
+      let errorMessage = 'Failed to cancel download';
+      if (axios.isAxiosError(error) && error.response?.data?.error) {
+        errorMessage = error.response.data.error;
       }
+
+      throw new Error(errorMessage);
     }
   },
+
+  // URL of a completed file for in-browser playback. The server answers range
+  // requests, so the player can seek without loading the whole file.
+  getStreamUrl(id: string): string {
+    return `${API_BASE_URL}/downloads/${encodeURIComponent(id)}/stream`;
+  },
+
+  // URL of the square cover art embedded in a completed file
+  getCoverUrl(id: string): string {
+    return `${API_BASE_URL}/downloads/${encodeURIComponent(id)}/cover`;
+  },
+
+  // Download a completed file. The browser fetches it natively, so large
+  // files are not buffered in memory and interrupted transfers can resume.
+  downloadFile(id: string, filename: string): void {
+    const link = document.createElement('a');
+    link.href = `${API_BASE_URL}/downloads/file/${encodeURIComponent(id)}`;
+    // Only a hint: the server's Content-Disposition decides for cross-origin links
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  },
+
+  // Download the completed tracks of a playlist as one ZIP. The server builds
+  // the archive while sending it, so the browser downloads it directly.
+  downloadPlaylistArchive(playlistId: string): void {
+    const link = document.createElement('a');
+    link.href = `${API_BASE_URL}/playlists/${encodeURIComponent(playlistId)}/archive`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  },
 };
 
 export default api;
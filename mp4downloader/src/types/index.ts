@@ -1,12 +1,46 @@
+// Stable error codes reported by the backend
+export type DownloadErrorCode =
+  | 'private_video'
+  | 'age_restricted'
+  | 'geo_blocked'
+  | 'video_removed'
+  | 'copyright_claim'
+  | 'rate_limited'
+  | 'ffmpeg_missing'
+  | 'network_error'
+  | 'unknown';
+
 export interface DownloadItem {
   id: string;
   url: string;
   title: string;
-  status: 'pending' | 'downloading' | 'converting' | 'completed' | 'error';
+  status: 'pending' | 'queued' | 'downloading' | 'processing' | 'completed' | 'error' | 'interrupted' | 'cancelled' | 'retrying';
   progress: number;
+  queuePosition?: number;
+  attempts?: number;
+  maxAttempts?: number;
+  nextRetryAt?: string;
   error?: string;
+  errorCode?: DownloadErrorCode;
+  errorMessage?: string;
+  retryable?: boolean;
   filePath?: string;
   quality: string;
+  format?: AudioFormat;
+  range?: TimeRange;
+  loudness?: LoudnessSettings;
+  measuredLoudness?: number;
+  replayGain?: ReplayGain;
+  sponsorBlock?: SponsorBlockCategory[];
+  removedSegments?: RemovedSegment[];
+  mode?: DownloadMode;
+  video?: VideoSettings;
+  // Square artwork is available from the cover endpoint
+  hasCover?: boolean;
+  // False when the file's container (WAV, WebM, raw AAC) cannot hold it
+  coverEmbedded?: boolean;
+  metadataMatch?: MetadataMatch;
+  audio?: AudioProperties;
   duration?: number;
   size?: number;
   timestamp: number;
@@ -18,14 +52,18 @@ export interface PlaylistInfo {
   id: string;
   url: string;
   title: string;
+  // 'chapters' groups the tracks of one video split by chapters
+  kind?: 'playlist' | 'chapters';
   videoCount: number;
   status: 'pending' | 'processing' | 'completed' | 'error';
   progress: number;
   completedItems: number;
   totalItems: number;
   error?: string;
+  createdAt?: string;
   items: Array<{
     id: string;
+    url: string;
     title: string;
     status: DownloadItem['status'];
     progress: number;
@@ -33,13 +71,171 @@ export interface PlaylistInfo {
   }>;
 }
 
-export type QualityOption = '128' | '192' | '256' | '320';
+// Constant bitrates in kbps
+export const CBR_QUALITIES = ['96', '128', '160', '192', '256', '320'] as const;
+
+// LAME style VBR levels with their typical average bitrate; V0 is the best
+export const VBR_QUALITIES = {
+  V0: 245,
+  V1: 225,
+  V2: 190,
+  V3: 175,
+  V4: 165,
+  V5: 130,
+  V6: 115,
+  V7: 100,
+  V8: 85,
+  V9: 65,
+} as const;
+
+export type QualityOption = (typeof CBR_QUALITIES)[number] | keyof typeof VBR_QUALITIES;
+
+export const isVbrQuality = (quality: string): quality is keyof typeof VBR_QUALITIES =>
+  quality in VBR_QUALITIES;
+
+// 'original' keeps the source audio stream without re-encoding
+export type AudioFormat = 'mp3' | 'm4a' | 'aac' | 'opus' | 'ogg' | 'flac' | 'wav' | 'original';
+
+// Formats where a bitrate does not apply
+export const LOSSLESS_FORMATS: AudioFormat[] = ['flac', 'wav'];
+
+// Part of a video in seconds; missing ends mean the start or end of the video
+export interface TimeRange {
+  start?: number;
+  end?: number;
+}
+
+// What InputArea asks to download
+export interface DownloadRequest {
+  url: string;
+  quality: QualityOption;
+  format: AudioFormat;
+  range?: TimeRange;
+  // One track per chapter of the video
+  splitChapters?: boolean;
+  loudness?: LoudnessSettings;
+  // SponsorBlock categories to cut out of the audio
+  sponsorBlock?: SponsorBlockCategory[];
+  // Set to download the video itself; format and quality are then ignored
+  video?: VideoSettings;
+}
+
+// 'video' keeps the picture, 'audio' extracts the sound only
+export type DownloadMode = 'audio' | 'video';
+
+// Highest video heights to choose from; 'best' has no limit
+export const VIDEO_RESOLUTIONS = ['best', '2160', '1440', '1080', '720', '480', '360'] as const;
+export type VideoResolution = (typeof VIDEO_RESOLUTIONS)[number];
+
+export type VideoContainer = 'mp4' | 'webm' | 'mkv';
+
+export interface VideoSettings {
+  resolution: VideoResolution;
+  container: VideoContainer;
+}
+
+export type SponsorBlockCategory =
+  | 'sponsor'
+  | 'intro'
+  | 'outro'
+  | 'selfpromo'
+  | 'preview'
+  | 'filler'
+  | 'interaction'
+  | 'music_offtopic';
+
+// What the server removes for "non-music segments"
+export const DEFAULT_SPONSORBLOCK_CATEGORIES: SponsorBlockCategory[] = [
+  'music_offtopic',
+  'intro',
+  'outro',
+  'sponsor',
+];
+
+// Release the album, year, genre and artwork tags were looked up from;
+// confidence runs from 0 to 1
+export interface MetadataMatch {
+  provider: 'musicbrainz' | 'itunes';
+  confidence: number;
+}
+
+// Segment cut out of a download, in seconds of the original video
+export interface RemovedSegment {
+  category: string;
+  start: number;
+  end: number;
+}
+
+// 'normalize' re-encodes to a target loudness, 'replaygain' only adds gain tags
+export type LoudnessMode = 'off' | 'normalize' | 'replaygain';
+
+export interface LoudnessSettings {
+  mode: LoudnessMode;
+  // Integrated loudness in LUFS; the server's default when missing
+  targetLufs?: number;
+}
+
+// ReplayGain values in dB (gain) and linear full scale (peak)
+export interface ReplayGain {
+  trackGain: number;
+  trackPeak: number;
+  albumGain?: number;
+  albumPeak?: number;
+}
+
+// Chapter of a file in seconds from its start
+export interface ChapterMarker {
+  title: string;
+  startTime: number;
+  endTime: number;
+}
+
+// Tags read back from a finished MP3
+export interface TrackTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  year?: string;
+  trackNumber?: string;
+  genre?: string;
+  chapters: ChapterMarker[];
+}
+
+// Measured properties of a finished file
+export interface AudioProperties {
+  codec?: string;
+  container?: string;
+  bitrate?: number;
+  sampleRate?: number;
+  lossless?: boolean;
+}
 
 export interface DownloadProgress {
   id: string;
   progress: number;
   status: DownloadItem['status'];
+  format?: AudioFormat;
+  quality?: string;
+  range?: TimeRange;
+  loudness?: LoudnessSettings;
+  measuredLoudness?: number;
+  replayGain?: ReplayGain;
+  sponsorBlock?: SponsorBlockCategory[];
+  removedSegments?: RemovedSegment[];
+  mode?: DownloadMode;
+  video?: VideoSettings;
+  hasCover?: boolean;
+  coverEmbedded?: boolean;
+  metadataMatch?: MetadataMatch;
+  audio?: AudioProperties;
+  queuePosition?: number;
+  attempts?: number;
+  maxAttempts?: number;
+  nextRetryAt?: string;
   error?: string;
+  errorCode?: DownloadErrorCode;
+  errorMessage?: string;
+  retryable?: boolean;
   filePath?: string;
   duration?: number;
   size?: number;